@@ -0,0 +1,109 @@
+import { bytesToHex } from '@noble/hashes/utils';
+import { c32addressDecode } from './address';
+import * as base58check from './base58check';
+import {
+  C32LengthError,
+  C32NetworkError,
+  C32PrincipalError,
+  C32UnsupportedAddressError,
+} from './errors';
+import {
+  getNetworkByBitcoinVersion,
+  getNetworkByVersion,
+  NetworkMatch,
+  StacksAddressType,
+  StacksNetworkName,
+} from './networks';
+import { getSegwitNetwork, parseSegwitAddress } from './segwit';
+
+/**
+ * Options for sameAccount().
+ * @property {boolean} ignoreNetwork - compare only the hash mode and hash160,
+ *   so that e.g. a mainnet and a testnet address of the same key match
+ */
+export interface SameAccountOptions {
+  ignoreNetwork?: boolean;
+}
+
+/*
+ * The account an address pays to.
+ */
+interface Account {
+  network: StacksNetworkName;
+  hashMode: StacksAddressType;
+  hash160: string;
+}
+
+/*
+ * Decode a c32 address, base58check address or P2WPKH address into the
+ * network, hash mode and hash160 of its account.  A P2WPKH address pays to
+ * the same hash160 as a P2PKH address, so it has the p2pkh hash mode, as in segwitToC32().
+ * Contract principals are rejected: a contract is not its deployer's account.
+ */
+function decodeAccount(address: string): Account {
+  let match: NetworkMatch | undefined;
+  let hash160: string;
+  let version: number;
+
+  const segwitNetwork = getSegwitNetwork(address);
+
+  if (address.startsWith('S') && address.includes('.')) {
+    throw new C32PrincipalError(address, 'A contract principal is not an account address');
+  } else if (address.startsWith('S')) {
+    [version, hash160] = c32addressDecode(address);
+    match = getNetworkByVersion(version);
+  } else if (segwitNetwork !== undefined) {
+    const info = parseSegwitAddress(address);
+    if (info.type !== 'p2wpkh') {
+      throw new C32UnsupportedAddressError(address, `A ${info.type} address has no hash160`);
+    }
+    return { network: segwitNetwork.name, hashMode: 'p2pkh', hash160: info.program };
+  } else {
+    const { prefix, data } = base58check.decode(address);
+    if (data.length !== 20) {
+      throw new C32LengthError(address, 'Invalid address: not a hash160');
+    }
+    version = prefix[0];
+    hash160 = bytesToHex(data);
+    match = getNetworkByBitcoinVersion(version);
+  }
+
+  if (match === undefined) {
+    throw new C32NetworkError(address, `Unknown address version ${version}`);
+  }
+  return { network: match.network.name, hashMode: match.type, hash160 };
+}
+
+/**
+ * Get a canonical key for the account an address pays to, e.g. for use as
+ * a Map key: `<hash mode>:<hash160>`.  The key does not depend on the
+ * address's encoding or network, so e.g. the mainnet and testnet c32
+ * addresses and the Bitcoin address of the same key all have the same key.
+ * Contract principals are rejected with a C32PrincipalError, since funds sent
+ * to a contract do not belong to its deployer's account.
+ * @param {string} address - a c32 address, base58check address or P2WPKH address
+ * @returns {string} the key, e.g. `p2pkh:a46ff88886c2ef9762d970b4d2c63678835bd39d`
+ */
+export function accountKey(address: string): string {
+  const { hashMode, hash160 } = decodeAccount(address);
+  return `${hashMode}:${hash160}`;
+}
+
+/**
+ * Check whether two addresses, in any encoding, pay to the same account:
+ * the same hash mode and hash160, and (unless `ignoreNetwork` is set) the same network.
+ * Contract principals are rejected, as by accountKey().
+ * @param {string} a - a c32 address, base58check address or P2WPKH address
+ * @param {string} b - another address
+ * @param {SameAccountOptions} options - whether to ignore the network
+ * @returns {boolean} true if the addresses pay to the same account
+ */
+export function sameAccount(a: string, b: string, options: SameAccountOptions = {}): boolean {
+  const first = decodeAccount(a);
+  const second = decodeAccount(b);
+  return (
+    first.hashMode === second.hashMode &&
+    first.hash160 === second.hash160 &&
+    (options.ignoreNetwork === true || first.network === second.network)
+  );
+}
@@ -1,62 +1,238 @@
 import { c32checkEncode, c32checkDecode } from './checksum';
 import * as base58check from './base58check';
-import { bytesToHex } from '@noble/hashes/utils';
-
-export const versions = {
-  mainnet: {
-    p2pkh: 22, // 'P'
-    p2sh: 20, // 'M'
-  },
-  testnet: {
-    p2pkh: 26, // 'T'
-    p2sh: 21, // 'N'
-  },
-};
-
-// address conversion : bitcoin to stacks
-const ADDR_BITCOIN_TO_STACKS: Record<number, number> = {};
-ADDR_BITCOIN_TO_STACKS[0] = versions.mainnet.p2pkh;
-ADDR_BITCOIN_TO_STACKS[5] = versions.mainnet.p2sh;
-ADDR_BITCOIN_TO_STACKS[111] = versions.testnet.p2pkh;
-ADDR_BITCOIN_TO_STACKS[196] = versions.testnet.p2sh;
-
-// address conversion : stacks to bitcoin
-const ADDR_STACKS_TO_BITCOIN: Record<number, number> = {};
-ADDR_STACKS_TO_BITCOIN[versions.mainnet.p2pkh] = 0;
-ADDR_STACKS_TO_BITCOIN[versions.mainnet.p2sh] = 5;
-ADDR_STACKS_TO_BITCOIN[versions.testnet.p2pkh] = 111;
-ADDR_STACKS_TO_BITCOIN[versions.testnet.p2sh] = 196;
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { C32DecodeOptions } from './encoding';
+import { C32InvalidCharacterError, C32LengthError, C32NetworkError } from './errors';
+import {
+  ADDR_BITCOIN_TO_STACKS,
+  ADDR_STACKS_TO_BITCOIN,
+  getNetwork,
+  getNetworkByVersion,
+  listNetworks,
+  StacksAddressType,
+  StacksNetworkName,
+  versions,
+} from './networks';
+import type { B58Address, C32Address, Hash160Hex } from './types';
+import { toHex } from './utils';
+
+export { versions };
+
+/**
+ * The version and hash160 of a decoded c32 address, as bytes.
+ */
+export interface C32AddressBytes {
+  version: number;
+  hash160: Uint8Array;
+}
+
+/**
+ * Options for c32address().
+ * @property {number} payloadLength - the length of the hash to encode, in
+ *   bytes: 20 for a hash160 (the default), or 32, e.g. for a SHA-256 script hash
+ */
+export interface C32AddressOptions {
+  payloadLength?: 20 | 32;
+}
+
+/**
+ * Options for c32addressDecode().
+ * @property {boolean} grouped - accept addresses split into groups by spaces
+ *   or hyphens, as made by formatAddress()
+ * @property {number} payloadLength - the length the decoded hash must have,
+ *   in bytes: 20 (the default) or 32
+ */
+export interface C32AddressDecodeOptions extends C32DecodeOptions {
+  grouped?: boolean;
+  payloadLength?: 20 | 32;
+}
+
+// the ellipses formatAddress() (or a user) may put in a truncated address
+const TRUNCATION_REGEX = /\u2026|\.\.\./;
+
+// the separators accepted between groups of a grouped address
+const GROUP_SEPARATOR_REGEX = /[\s-]/;
+
+/*
+ * Get the payload length option, in bytes, checking that it is supported.
+ */
+function getPayloadLength(options: { payloadLength?: number }): number {
+  const payloadLength = options.payloadLength ?? 20;
+  if (payloadLength !== 20 && payloadLength !== 32) {
+    throw new RangeError(`Invalid payload length ${payloadLength}: must be 20 or 32 bytes`);
+  }
+  return payloadLength;
+}
 
 /**
  * Make a c32check address with the given version and hash160
  * The only difference between a c32check string and c32 address
  * is that the letter 'S' is pre-pended.
  * @param {number} version - the address version number
- * @param {string} hash160hex - the hash160 to encode (must be a hash160)
- * @returns {string} the address
+ * @param {string | Uint8Array} hash160 - the hash160 to encode (must be a
+ *   hash160, unless `payloadLength` says otherwise), as (optionally
+ *   0x-prefixed) hex or bytes
+ * @param {C32AddressOptions} options - the length of the hash
+ * @returns {C32Address} the address
  */
-export function c32address(version: number, hash160hex: string): string {
-  if (!hash160hex.match(/^[0-9a-fA-F]{40}$/)) {
-    throw new Error('Invalid argument: not a hash160 hex string');
+export function c32address(
+  version: number,
+  hash160: string | Uint8Array,
+  options: C32AddressOptions = {}
+): C32Address {
+  const payloadLength = getPayloadLength(options);
+  const hash160hex = toHex(hash160, 'Invalid argument: not a hash160 hex string');
+  if (hash160hex.length !== payloadLength * 2) {
+    throw new C32LengthError(
+      hash160,
+      payloadLength === 20
+        ? 'Invalid argument: not a hash160 hex string'
+        : `Invalid argument: not a ${payloadLength}-byte hash hex string`
+    );
   }
 
   const c32string = c32checkEncode(version, hash160hex);
-  return `S${c32string}`;
+  return `S${c32string}` as C32Address;
+}
+
+/**
+ * Make a c32check address from a hash160 given as bytes.  Byte-oriented
+ * counterpart of `c32address`.
+ * @param {number} version - the address version number
+ * @param {Uint8Array} hash160 - the 20-byte hash160 (or 32-byte hash) to encode
+ * @param {C32AddressOptions} options - the length of the hash
+ * @returns {C32Address} the address
+ */
+export function c32addressBytes(
+  version: number,
+  hash160: Uint8Array,
+  options: C32AddressOptions = {}
+): C32Address {
+  return c32address(version, hash160, options);
 }
 
 /**
  * Decode a c32 address into its version and hash160
  * @param {string} c32addr - the c32check-encoded address
- * @returns {[number, string]} a tuple with the version and hash160
+ * @param {C32AddressDecodeOptions} options - decoding options; `strict` rejects
+ *   lowercase, substituted characters and non-canonical encodings,
+ *   `grouped` accepts spaces and hyphens between groups of characters, and
+ *   `payloadLength` sets the length the hash must have (20 bytes by default).
+ *   Truncated addresses are always rejected.
+ * @returns {[number, Hash160Hex]} a tuple with the version and hash160 (or
+ *   32-byte hash, with `payloadLength: 32`)
  */
-export function c32addressDecode(c32addr: string): [number, string] {
+export function c32addressDecode(
+  c32addr: string,
+  options?: C32AddressDecodeOptions & { payloadLength?: 20 }
+): [number, Hash160Hex];
+export function c32addressDecode(
+  c32addr: string,
+  options?: C32AddressDecodeOptions
+): [number, string];
+export function c32addressDecode(
+  c32addr: string,
+  options: C32AddressDecodeOptions = {}
+): [number, string] {
+  const payloadLength = getPayloadLength(options);
+  const decoded = decodeAddress(c32addr, options);
+  if (decoded[1].length !== payloadLength * 2) {
+    throw new C32LengthError(
+      c32addr,
+      `Invalid c32 address: expected a ${payloadLength}-byte hash, got ${
+        decoded[1].length / 2
+      } bytes`
+    );
+  }
+  return decoded;
+}
+
+/*
+ * Decode a c32 address into its version and hash, of any length.
+ */
+function decodeAddress(c32addr: string, options: C32AddressDecodeOptions): [number, string] {
+  if (TRUNCATION_REGEX.test(c32addr)) {
+    throw new C32LengthError(c32addr, 'Invalid c32 address: truncated');
+  }
+  if (options.grouped) {
+    return decodeGroupedAddress(c32addr, options);
+  }
   if (c32addr.length <= 5) {
-    throw new Error('Invalid c32 address: invalid length');
+    throw new C32LengthError(c32addr, 'Invalid c32 address: invalid length');
   }
   if (c32addr[0] != 'S') {
-    throw new Error('Invalid c32 address: must start with "S"');
+    throw new C32InvalidCharacterError(c32addr, 0, 'Invalid c32 address: must start with "S"');
   }
-  return c32checkDecode(c32addr.slice(1));
+  try {
+    return c32checkDecode(c32addr.slice(1), options);
+  } catch (e) {
+    // report character positions relative to the full address
+    if (e instanceof C32InvalidCharacterError) {
+      throw new C32InvalidCharacterError(c32addr, e.index + 1, e.message);
+    }
+    throw e;
+  }
+}
+
+/*
+ * Decode an address split into groups, reporting character positions
+ * relative to the grouped input.
+ */
+function decodeGroupedAddress(c32addr: string, options: C32AddressDecodeOptions): [number, string] {
+  const positions: number[] = [];
+  for (let i = 0; i < c32addr.length; i++) {
+    if (!GROUP_SEPARATOR_REGEX.test(c32addr[i])) {
+      positions.push(i);
+    }
+  }
+  const ungrouped = positions.map(i => c32addr[i]).join('');
+  try {
+    return decodeAddress(ungrouped, { ...options, grouped: false });
+  } catch (e) {
+    if (e instanceof C32InvalidCharacterError) {
+      throw new C32InvalidCharacterError(c32addr, positions[e.index], e.message);
+    }
+    throw e;
+  }
+}
+
+/**
+ * Decode a c32 address into its version and hash160 bytes.  Byte-oriented
+ * counterpart of `c32addressDecode`.
+ * @param {string} c32addr - the c32check-encoded address
+ * @param {C32AddressDecodeOptions} options - decoding options
+ * @returns {C32AddressBytes} the version and hash160 bytes
+ */
+export function c32addressDecodeBytes(
+  c32addr: string,
+  options: C32AddressDecodeOptions = {}
+): C32AddressBytes {
+  const [version, hash160hex] = c32addressDecode(c32addr, options);
+  return { version, hash160: hexToBytes(hash160hex) };
+}
+
+/**
+ * Options for b58ToC32() and c32ToB58().
+ * @property {StacksNetworkName} network - the registered network to convert
+ *   within; the address must use one of its version numbers
+ */
+export interface AddressConversionOptions {
+  network?: StacksNetworkName;
+}
+
+/*
+ * Find the address type of a version number within a network.
+ * @param {Record<StacksAddressType, number>} networkVersions - the network's versions
+ * @param {number} version - the version number
+ * @returns {StacksAddressType | undefined} the address type, if any
+ */
+function findAddressType(
+  networkVersions: Record<StacksAddressType, number>,
+  version: number
+): StacksAddressType | undefined {
+  return (Object.keys(networkVersions) as StacksAddressType[]).find(
+    type => networkVersions[type] === version
+  );
 }
 
 /*
@@ -64,47 +240,80 @@ export function c32addressDecode(c32addr: string): [number, string] {
  * Try to convert the version number if one is not given.
  * @param {string} b58check - the base58check encoded address
  * @param {number} version - the version number, if not inferred from the address
- * @returns {string} the c32 address with the given version number (or the
+ * @param {AddressConversionOptions} options - the network to convert within,
+ *   if the version number is inferred
+ * @returns {C32Address} the c32 address with the given version number (or the
  *   semantically-equivalent c32 version number, if not given)
  */
-export function b58ToC32(b58check: string, version: number = -1): string {
+export function b58ToC32(
+  b58check: string,
+  version: number = -1,
+  options: AddressConversionOptions = {}
+): C32Address {
   const addrInfo = base58check.decode(b58check);
   const hash160String = bytesToHex(addrInfo.data);
   const addrVersion = parseInt(bytesToHex(addrInfo.prefix), 16);
   let stacksVersion;
 
-  if (version < 0) {
+  if (version >= 0) {
+    stacksVersion = version;
+  } else if (options.network !== undefined) {
+    const network = getNetwork(options.network);
+    const type = findAddressType(network.bitcoinVersions, addrVersion);
+    if (type === undefined) {
+      throw new C32NetworkError(
+        b58check,
+        `Address version ${addrVersion} does not belong to network ${network.name}`
+      );
+    }
+    stacksVersion = network.versions[type];
+  } else {
     stacksVersion = addrVersion;
     if (ADDR_BITCOIN_TO_STACKS[addrVersion] !== undefined) {
       stacksVersion = ADDR_BITCOIN_TO_STACKS[addrVersion];
     }
-  } else {
-    stacksVersion = version;
   }
 
   return c32address(stacksVersion, hash160String);
 }
 
 /*
- * Convert a c32check address to a base58check address.
+ * Convert a c32check address to a base58check address.  The address's hash
+ * is copied as is, whatever its length.
  * @param {string} c32string - the c32check address
  * @param {number} version - the version number, if not inferred from the address
- * @returns {string} the base58 address with the given version number (or the
+ * @param {AddressConversionOptions} options - the network to convert within,
+ *   if the version number is inferred
+ * @returns {B58Address} the base58 address with the given version number (or the
  *    semantically-equivalent bitcoin version number, if not given)
  */
-export function c32ToB58(c32string: string, version: number = -1): string {
-  const addrInfo = c32addressDecode(c32string);
+export function c32ToB58(
+  c32string: string,
+  version: number = -1,
+  options: AddressConversionOptions = {}
+): B58Address {
+  const addrInfo = decodeAddress(c32string, {});
   const stacksVersion = addrInfo[0];
   const hash160String = addrInfo[1];
   let bitcoinVersion;
 
-  if (version < 0) {
+  if (version >= 0) {
+    bitcoinVersion = version;
+  } else if (options.network !== undefined) {
+    const network = getNetwork(options.network);
+    const type = findAddressType(network.versions, stacksVersion);
+    if (type === undefined) {
+      throw new C32NetworkError(
+        c32string,
+        `Address version ${stacksVersion} does not belong to network ${network.name}`
+      );
+    }
+    bitcoinVersion = network.bitcoinVersions[type];
+  } else {
     bitcoinVersion = stacksVersion;
     if (ADDR_STACKS_TO_BITCOIN[stacksVersion] !== undefined) {
       bitcoinVersion = ADDR_STACKS_TO_BITCOIN[stacksVersion];
     }
-  } else {
-    bitcoinVersion = version;
   }
 
   let prefix = bitcoinVersion.toString(16);
@@ -112,5 +321,79 @@ export function c32ToB58(c32string: string, version: number = -1): string {
     prefix = `0${prefix}`;
   }
 
-  return base58check.encode(hash160String, prefix);
+  return base58check.encode(hash160String, prefix) as B58Address;
+}
+
+/**
+ * Options for validateStacksAddress().
+ * @property {StacksNetworkName} network - the network the address must belong to
+ * @property {StacksAddressType[]} allowedTypes - the address types to accept
+ * @property {number} payloadLength - the length the address's hash must have,
+ *   in bytes: 20 (the default) or 32
+ */
+export interface StacksAddressValidationOptions extends C32DecodeOptions {
+  network?: StacksNetworkName;
+  allowedTypes?: StacksAddressType[];
+  payloadLength?: 20 | 32;
+}
+
+/**
+ * The result of validateStacksAddress().  The decoded fields are set
+ * whenever the address decodes, even if it is rejected by the options;
+ * `reason` is set whenever `valid` is false.  With `payloadLength: 32`,
+ * `hash160` holds the 32-byte hash.
+ */
+export interface StacksAddressValidation {
+  valid: boolean;
+  network?: StacksNetworkName;
+  type?: StacksAddressType;
+  version?: number;
+  hash160?: string;
+  reason?: string;
+}
+
+/**
+ * Validate a c32 address and report which network and address type it
+ * belongs to.  Never throws.
+ * @param {string} c32addr - the c32check-encoded address
+ * @param {StacksAddressValidationOptions} options - the network and address
+ *   types to enforce, and decoding options
+ * @returns {StacksAddressValidation} the validation result
+ */
+export function validateStacksAddress(
+  c32addr: string,
+  options: StacksAddressValidationOptions = {}
+): StacksAddressValidation {
+  let version: number;
+  let hash160: string;
+  try {
+    [version, hash160] = c32addressDecode(c32addr, options);
+  } catch (e) {
+    return { valid: false, reason: (e as Error).message };
+  }
+
+  // an address belongs to the expected network if that network uses its
+  // version, even when an earlier-registered network shares the version
+  let match = getNetworkByVersion(version);
+  if (options.network !== undefined) {
+    const expected = listNetworks().find(network => network.name === options.network);
+    const expectedType = expected && findAddressType(expected.versions, version);
+    if (expected && expectedType) {
+      match = { network: expected, type: expectedType };
+    }
+  }
+  const network = match?.network.name;
+  const type = match?.type;
+
+  const result = { network, type, version, hash160 };
+  if (network === undefined || type === undefined) {
+    return { valid: false, ...result, reason: `Unknown address version ${version}` };
+  }
+  if (options.network !== undefined && options.network !== network) {
+    return { valid: false, ...result, reason: `Expected a ${options.network} address` };
+  }
+  if (options.allowedTypes !== undefined && !options.allowedTypes.includes(type)) {
+    return { valid: false, ...result, reason: `Address type ${type} is not allowed` };
+  }
+  return { valid: true, ...result };
 }
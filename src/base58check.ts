@@ -8,32 +8,139 @@
 import { sha256 } from '@noble/hashes/sha256';
 import { hexToBytes } from '@noble/hashes/utils';
 import * as basex from 'base-x';
+import { Base58ChecksumError, Base58InvalidCharacterError, C32LengthError } from './errors';
+import { findInvalidCharacter, toHex } from './utils';
 
 const ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const base58 = basex(ALPHABET);
 
-export function encode(data: string | Uint8Array, prefix: string | Uint8Array = '00') {
-  const dataBytes = typeof data === 'string' ? hexToBytes(data) : data;
-  const prefixBytes = typeof prefix === 'string' ? hexToBytes(prefix) : data;
+// a double-SHA256 checksum can be at most 32 bytes long
+const MAX_CHECKSUM_LENGTH = 32;
 
-  if (!(dataBytes instanceof Uint8Array) || !(prefixBytes instanceof Uint8Array)) {
-    throw new TypeError('Argument must be of type Uint8Array or string');
+/**
+ * Options for encode().
+ * @property {number} checksumLength - the number of checksum bytes (defaults to 4)
+ */
+export interface Base58CheckEncodeOptions {
+  checksumLength?: number;
+}
+
+/**
+ * Options for decode().
+ * @property {number} prefixLength - the number of version prefix bytes
+ *   (defaults to 1, as in Bitcoin addresses; e.g. 4 for extended keys)
+ * @property {number} checksumLength - the number of checksum bytes (defaults to 4)
+ */
+export interface Base58CheckDecodeOptions extends Base58CheckEncodeOptions {
+  prefixLength?: number;
+}
+
+/**
+ * A decoded base58check string.
+ * @property {Uint8Array} prefix - the version prefix
+ * @property {Uint8Array} data - the payload
+ */
+export interface Base58CheckDecoded {
+  prefix: Uint8Array;
+  data: Uint8Array;
+}
+
+/*
+ * Convert a hex-or-bytes argument to bytes.
+ */
+function toBytes(input: string | Uint8Array, name: string): Uint8Array {
+  const hex = toHex(input, `Invalid ${name}: not a hex string`);
+  if (hex.length % 2 !== 0) {
+    throw new C32LengthError(input, `Invalid ${name}: hex string has an odd length`);
+  }
+  return hexToBytes(hex);
+}
+
+/*
+ * Check a checksum length option.
+ */
+function checkChecksumLength(checksumLength: number): void {
+  if (
+    !Number.isInteger(checksumLength) ||
+    checksumLength < 1 ||
+    checksumLength > MAX_CHECKSUM_LENGTH
+  ) {
+    throw new RangeError(
+      `Invalid checksum length (must be between 1 and ${MAX_CHECKSUM_LENGTH} bytes)`
+    );
   }
+}
 
-  const checksum = sha256(sha256(new Uint8Array([...prefixBytes, ...dataBytes])));
-  return basex(ALPHABET).encode([...prefixBytes, ...dataBytes, ...checksum.slice(0, 4)]);
+/*
+ * The first `length` bytes of the double-SHA256 of prefix and data.
+ */
+function checksum(prefix: Uint8Array, data: Uint8Array, length: number): Uint8Array {
+  const payload = new Uint8Array(prefix.length + data.length);
+  payload.set(prefix);
+  payload.set(data, prefix.length);
+  return sha256(sha256(payload)).slice(0, length);
 }
 
-export function decode(string: string) {
-  const bytes = basex(ALPHABET).decode(string);
-  const prefixBytes = bytes.slice(0, 1);
-  const dataBytes = bytes.slice(1, -4);
+/**
+ * Encode data and a version prefix as a base58check string.
+ * @param {string | Uint8Array} data - the payload, as hex or bytes
+ * @param {string | Uint8Array} prefix - the version prefix, as hex or bytes,
+ *   of any length (defaults to a single zero byte)
+ * @param {Base58CheckEncodeOptions} options - the checksum length
+ * @returns {string} the base58check string
+ */
+export function encode(
+  data: string | Uint8Array,
+  prefix: string | Uint8Array = '00',
+  options: Base58CheckEncodeOptions = {}
+): string {
+  const dataBytes = toBytes(data, 'data');
+  const prefixBytes = toBytes(prefix, 'prefix');
+  const checksumLength = options.checksumLength ?? 4;
+  checkChecksumLength(checksumLength);
+
+  const bytes = new Uint8Array(prefixBytes.length + dataBytes.length + checksumLength);
+  bytes.set(prefixBytes);
+  bytes.set(dataBytes, prefixBytes.length);
+  bytes.set(checksum(prefixBytes, dataBytes, checksumLength), bytes.length - checksumLength);
+  return base58.encode(bytes);
+}
 
-  // todo: for better performance replace spread with `concatBytes` method
-  const checksum = sha256(sha256(new Uint8Array([...prefixBytes, ...dataBytes])));
-  bytes.slice(-4).forEach((check, index) => {
-    if (check !== checksum[index]) {
-      throw new Error('Invalid checksum');
+/**
+ * Decode a base58check string into its version prefix and data.
+ * @param {string} string - the base58check string
+ * @param {Base58CheckDecodeOptions} options - the prefix and checksum lengths
+ * @returns {Base58CheckDecoded} the prefix and data
+ */
+export function decode(string: string, options: Base58CheckDecodeOptions = {}): Base58CheckDecoded {
+  const prefixLength = options.prefixLength ?? 1;
+  const checksumLength = options.checksumLength ?? 4;
+  if (!Number.isInteger(prefixLength) || prefixLength < 0) {
+    throw new RangeError('Invalid prefix length (must be a non-negative integer)');
+  }
+  checkChecksumLength(checksumLength);
+
+  const invalidIndex = findInvalidCharacter(string, ALPHABET);
+  if (invalidIndex >= 0) {
+    throw new Base58InvalidCharacterError(string, invalidIndex);
+  }
+
+  const bytes = base58.decode(string);
+  if (bytes.length < prefixLength + checksumLength) {
+    throw new C32LengthError(
+      string,
+      `Invalid base58check string: too short for a ${prefixLength}-byte prefix and ${checksumLength}-byte checksum`
+    );
+  }
+  const prefix = bytes.slice(0, prefixLength);
+  const data = bytes.slice(prefixLength, bytes.length - checksumLength);
+
+  const expected = checksum(prefix, data, checksumLength);
+  const actual = bytes.slice(bytes.length - checksumLength);
+  for (let i = 0; i < checksumLength; i++) {
+    if (actual[i] !== expected[i]) {
+      throw new Base58ChecksumError(string);
     }
-  });
-  return { prefix: prefixBytes, data: dataBytes };
+  }
+  return { prefix, data };
 }
@@ -0,0 +1,160 @@
+import { Transform } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { b58ToC32, c32addressDecode, c32ToB58 } from './address';
+import { C32Error } from './errors';
+
+/*
+ * The conversions available to convertMany() and createConvertStream().
+ */
+const OPERATIONS = {
+  b58ToC32: (input: string): string => b58ToC32(input),
+  c32ToB58: (input: string): string => c32ToB58(input),
+  c32addressDecode: (input: string): [number, string] => c32addressDecode(input),
+};
+
+/**
+ * The name of a batch conversion.
+ */
+export type BatchOperation = keyof typeof OPERATIONS;
+
+/**
+ * The value each batch conversion produces.
+ */
+export type BatchValue<Op extends BatchOperation> = ReturnType<typeof OPERATIONS[Op]>;
+
+/**
+ * The result of converting one input: either its value, or the error
+ * the conversion threw.
+ */
+export type BatchResult<T> =
+  | { ok: true; input: string; value: T }
+  | { ok: false; input: string; error: Error };
+
+/**
+ * Options for createConvertStream().
+ * @property {boolean} objectMode - read input strings and write BatchResult
+ *   objects, instead of reading newline-delimited text and writing
+ *   newline-delimited JSON
+ */
+export interface ConvertStreamOptions {
+  objectMode?: boolean;
+}
+
+/*
+ * Throw if a string is not the name of a batch conversion.
+ */
+function assertOperation(op: string): void {
+  if (!Object.prototype.hasOwnProperty.call(OPERATIONS, op)) {
+    throw new TypeError(`Unknown batch operation ${op}`);
+  }
+}
+
+/**
+ * Run a conversion, capturing any error it throws.
+ * @param {string} input - the input being converted
+ * @param {Function} convert - the conversion
+ * @returns {BatchResult} the value, or the error
+ */
+export function captureResult<T>(input: string, convert: () => T): BatchResult<T> {
+  try {
+    return { ok: true, input, value: convert() };
+  } catch (error) {
+    return {
+      ok: false,
+      input,
+      error: error instanceof Error ? error : new Error(String(error)),
+    };
+  }
+}
+
+/*
+ * Run a named batch conversion, capturing any error it throws.
+ */
+function convertOne<Op extends BatchOperation>(input: string, op: Op): BatchResult<BatchValue<Op>> {
+  return captureResult(input, () => OPERATIONS[op](input) as BatchValue<Op>);
+}
+
+/**
+ * Serialize a result as one line of JSON.  Errors are reduced to their
+ * code (if any) and message.
+ * @param {BatchResult} result - the result
+ * @returns {string} the JSON, without a trailing newline
+ */
+export function resultToJSON(result: BatchResult<unknown>): string {
+  if (result.ok) {
+    return JSON.stringify(result);
+  }
+  const code = result.error instanceof C32Error ? result.error.code : undefined;
+  return JSON.stringify({
+    ok: false,
+    input: result.input,
+    error: { code, message: result.error.message },
+  });
+}
+
+/**
+ * Convert many inputs at once.  Invalid inputs do not abort the batch;
+ * each input gets its own result, in input order.
+ * @param {Iterable<string>} inputs - the addresses to convert
+ * @param {BatchOperation} op - the conversion: 'b58ToC32', 'c32ToB58' or 'c32addressDecode'
+ * @returns {BatchResult[]} one result per input
+ */
+export function convertMany<Op extends BatchOperation>(
+  inputs: Iterable<string>,
+  op: Op
+): BatchResult<BatchValue<Op>>[] {
+  assertOperation(op);
+  return Array.from(inputs, input => convertOne(input, op));
+}
+
+/**
+ * Create a Node.js Transform stream that converts addresses as they arrive,
+ * so large inputs need not be held in memory.  By default, it reads
+ * newline-delimited text (blank lines are skipped) and writes one line of
+ * JSON per input, e.g. `{"ok":true,"input":"...","value":"..."}` or
+ * `{"ok":false,"input":"...","error":{"code":"...","message":"..."}}`.
+ * In object mode, it reads strings and writes BatchResult objects.
+ * Not available in browser builds.
+ * @param {BatchOperation} op - the conversion: 'b58ToC32', 'c32ToB58' or 'c32addressDecode'
+ * @param {ConvertStreamOptions} options - whether to use object mode
+ * @returns {Transform} the stream
+ */
+export function createConvertStream<Op extends BatchOperation>(
+  op: Op,
+  options: ConvertStreamOptions = {}
+): Transform {
+  assertOperation(op);
+
+  if (options.objectMode) {
+    return new Transform({
+      objectMode: true,
+      transform(chunk: unknown, _encoding: string, callback: Function) {
+        callback(null, convertOne(String(chunk), op));
+      },
+    });
+  }
+
+  const decoder = new StringDecoder('utf8');
+  let pending = '';
+  // convert the complete lines received so far; the last line is only
+  // complete once the input ends
+  const convertLines = (text: string, final: boolean): string | undefined => {
+    const lines = (pending + text).split('\n');
+    pending = final ? '' : (lines.pop() as string);
+    const output = lines
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .map(line => `${resultToJSON(convertOne(line, op))}\n`)
+      .join('');
+    return output || undefined;
+  };
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding: string, callback: Function) {
+      callback(null, convertLines(decoder.write(chunk), false));
+    },
+    flush(callback: Function) {
+      callback(null, convertLines(decoder.end(), true));
+    },
+  });
+}
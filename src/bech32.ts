@@ -0,0 +1,247 @@
+/*
+ * bech32 and bech32m encoding, as specified in BIP-173 and BIP-350,
+ * and SegWit output addresses built on them.
+ */
+import {
+  Bech32ChecksumError,
+  Bech32FormatError,
+  Bech32InvalidCharacterError,
+  C32LengthError,
+} from './errors';
+import { findInvalidCharacter } from './utils';
+
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+// the constant the checksum polymod must equal, per encoding
+const ENCODING_CONSTANTS = {
+  bech32: 1,
+  bech32m: 0x2bc830a3,
+};
+
+// the maximum length of a bech32 string, including the human-readable part
+const MAX_LENGTH = 90;
+
+export type Bech32Encoding = keyof typeof ENCODING_CONSTANTS;
+
+/**
+ * A decoded bech32 or bech32m string.
+ * @property {string} hrp - the human-readable part, in lower case
+ * @property {number[]} words - the data part, as 5-bit values, without the checksum
+ * @property {Bech32Encoding} encoding - which checksum the string uses
+ */
+export interface Bech32Decoded {
+  hrp: string;
+  words: number[];
+  encoding: Bech32Encoding;
+}
+
+/**
+ * A decoded SegWit output address.
+ * @property {string} hrp - the human-readable part, e.g. 'bc' or 'tb'
+ * @property {number} witnessVersion - the witness version (0 to 16)
+ * @property {Uint8Array} program - the witness program (2 to 40 bytes)
+ */
+export interface SegwitAddress {
+  hrp: string;
+  witnessVersion: number;
+  program: Uint8Array;
+}
+
+/*
+ * The BCH checksum over a sequence of 5-bit values.
+ */
+function polymod(values: number[]): number {
+  let chk = 1;
+  for (const value of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) {
+        chk ^= GENERATOR[i];
+      }
+    }
+  }
+  return chk >>> 0;
+}
+
+/*
+ * Expand the human-readable part into the values fed into the checksum.
+ */
+function hrpExpand(hrp: string): number[] {
+  const high = [];
+  const low = [];
+  for (let i = 0; i < hrp.length; i++) {
+    high.push(hrp.charCodeAt(i) >> 5);
+    low.push(hrp.charCodeAt(i) & 31);
+  }
+  return [...high, 0, ...low];
+}
+
+/*
+ * Compute the 6-word checksum of a human-readable part and data words.
+ */
+function createChecksum(hrp: string, words: number[], encoding: Bech32Encoding): number[] {
+  const mod =
+    polymod([...hrpExpand(hrp), ...words, 0, 0, 0, 0, 0, 0]) ^ ENCODING_CONSTANTS[encoding];
+  const checksum = [];
+  for (let i = 0; i < 6; i++) {
+    checksum.push((mod >>> (5 * (5 - i))) & 31);
+  }
+  return checksum;
+}
+
+/*
+ * Regroup a sequence of `fromBits`-bit values into `toBits`-bit values.
+ * When `pad` is false, leftover bits must be fewer than `fromBits` and all zero.
+ * @returns {number[] | null} the regrouped values, or null if the padding is invalid
+ */
+function convertBits(
+  data: ArrayLike<number>,
+  fromBits: number,
+  toBits: number,
+  pad: boolean
+): number[] | null {
+  let acc = 0;
+  let bits = 0;
+  const maxValue = (1 << toBits) - 1;
+  const result = [];
+  for (let i = 0; i < data.length; i++) {
+    acc = (acc << fromBits) | data[i];
+    bits += fromBits;
+    while (bits >= toBits) {
+      bits -= toBits;
+      result.push((acc >>> bits) & maxValue);
+    }
+    acc &= (1 << bits) - 1;
+  }
+  if (pad) {
+    if (bits > 0) {
+      result.push((acc << (toBits - bits)) & maxValue);
+    }
+  } else if (bits >= fromBits || acc !== 0) {
+    return null;
+  }
+  return result;
+}
+
+/**
+ * Encode a human-readable part and 5-bit data words as a bech32 or bech32m string.
+ * @param {string} hrp - the human-readable part
+ * @param {number[]} words - the data part, as 5-bit values
+ * @param {Bech32Encoding} encoding - which checksum to use
+ * @returns {string} the encoded string, in lower case
+ */
+export function encode(hrp: string, words: number[], encoding: Bech32Encoding = 'bech32'): string {
+  hrp = hrp.toLowerCase();
+  if (hrp.length < 1 || hrp.length + words.length + 7 > MAX_LENGTH) {
+    throw new C32LengthError(hrp, 'Invalid bech32 string: invalid length');
+  }
+  const checksum = createChecksum(hrp, words, encoding);
+  return `${hrp}1${[...words, ...checksum].map(word => CHARSET[word]).join('')}`;
+}
+
+/**
+ * Decode a bech32 or bech32m string.
+ * @param {string} string - the encoded string, in all lower or all upper case
+ * @returns {Bech32Decoded} the human-readable part, data words and checksum encoding
+ */
+export function decode(string: string): Bech32Decoded {
+  if (string.length > MAX_LENGTH) {
+    throw new C32LengthError(string, 'Invalid bech32 string: invalid length');
+  }
+  for (let i = 0; i < string.length; i++) {
+    const code = string.charCodeAt(i);
+    if (code < 33 || code > 126) {
+      throw new Bech32InvalidCharacterError(string, i);
+    }
+  }
+  if (string !== string.toLowerCase() && string !== string.toUpperCase()) {
+    throw new Bech32FormatError(string, 'Invalid bech32 string: mixed case');
+  }
+
+  const lower = string.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length) {
+    throw new Bech32FormatError(string, 'Invalid bech32 string: missing separator or checksum');
+  }
+
+  const hrp = lower.slice(0, separator);
+  const dataPart = lower.slice(separator + 1);
+  const invalidIndex = findInvalidCharacter(dataPart, CHARSET);
+  if (invalidIndex >= 0) {
+    throw new Bech32InvalidCharacterError(string, separator + 1 + invalidIndex);
+  }
+
+  const words = Array.from(dataPart, char => CHARSET.indexOf(char));
+  const check = polymod([...hrpExpand(hrp), ...words]);
+  const encoding = (Object.keys(ENCODING_CONSTANTS) as Bech32Encoding[]).find(
+    name => ENCODING_CONSTANTS[name] === check
+  );
+  if (encoding === undefined) {
+    throw new Bech32ChecksumError(string);
+  }
+  return { hrp, words: words.slice(0, -6), encoding };
+}
+
+/**
+ * Encode a SegWit output address.  Witness version 0 uses bech32; later
+ * versions use bech32m.
+ * @param {string} hrp - the human-readable part, e.g. 'bc' or 'tb'
+ * @param {number} witnessVersion - the witness version (0 to 16)
+ * @param {Uint8Array} program - the witness program
+ * @returns {string} the address
+ */
+export function encodeSegwitAddress(
+  hrp: string,
+  witnessVersion: number,
+  program: Uint8Array
+): string {
+  checkWitnessProgram(hrp, witnessVersion, program.length);
+  const words = [witnessVersion, ...(convertBits(program, 8, 5, true) as number[])];
+  return encode(hrp, words, witnessVersion === 0 ? 'bech32' : 'bech32m');
+}
+
+/**
+ * Decode a SegWit output address.
+ * @param {string} address - the address
+ * @returns {SegwitAddress} the human-readable part, witness version and program
+ */
+export function decodeSegwitAddress(address: string): SegwitAddress {
+  const { hrp, words, encoding } = decode(address);
+  if (words.length < 1) {
+    throw new Bech32FormatError(address, 'Invalid SegWit address: empty data');
+  }
+
+  const witnessVersion = words[0];
+  const program = convertBits(words.slice(1), 5, 8, false);
+  if (program === null) {
+    throw new Bech32FormatError(address, 'Invalid SegWit address: invalid padding');
+  }
+  checkWitnessProgram(address, witnessVersion, program.length);
+  if (encoding !== (witnessVersion === 0 ? 'bech32' : 'bech32m')) {
+    throw new Bech32FormatError(
+      address,
+      `Invalid SegWit address: witness version ${witnessVersion} must use ${
+        witnessVersion === 0 ? 'bech32' : 'bech32m'
+      }`
+    );
+  }
+
+  return { hrp, witnessVersion, program: new Uint8Array(program) };
+}
+
+/*
+ * Check that a witness version and program length are valid, per BIP-141.
+ */
+function checkWitnessProgram(input: string, witnessVersion: number, programLength: number) {
+  if (!Number.isInteger(witnessVersion) || witnessVersion < 0 || witnessVersion > 16) {
+    throw new Bech32FormatError(input, 'Invalid SegWit address: invalid witness version');
+  }
+  if (programLength < 2 || programLength > 40) {
+    throw new C32LengthError(input, 'Invalid SegWit address: invalid program length');
+  }
+  if (witnessVersion === 0 && programLength !== 20 && programLength !== 32) {
+    throw new C32LengthError(input, 'Invalid SegWit address: invalid program length for version 0');
+  }
+}
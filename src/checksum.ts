@@ -1,6 +1,30 @@
 import { sha256 } from '@noble/hashes/sha256';
 import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
-import { c32, c32decode, c32encode, c32normalize } from './encoding';
+import {
+  assertC32Canonical,
+  c32,
+  c32decode,
+  c32encode,
+  c32normalize,
+  C32DecodeOptions,
+} from './encoding';
+import {
+  C32ChecksumError,
+  C32InvalidCharacterError,
+  C32LengthError,
+  C32NonCanonicalError,
+  C32VersionError,
+} from './errors';
+import type { C32CheckString } from './types';
+import { findInvalidCharacter, toHex } from './utils';
+
+/**
+ * The version and payload of a decoded c32check string, as bytes.
+ */
+export interface C32CheckBytes {
+  version: number;
+  data: Uint8Array;
+}
 
 /**
  * Get the c32check checksum of a hex-encoded string
@@ -21,16 +45,15 @@ function c32checksum(dataHex: string): string {
  * * calculate the c32checksum of version + data
  * * c32encode version + data + c32checksum
  * @param {number} version - the version string (between 0 and 31)
- * @param {string} data - the data to encode
- * @returns {string} the c32check representation
+ * @param {string | Uint8Array} input - the data to encode, as (optionally
+ *   0x-prefixed) hex or bytes
+ * @returns {C32CheckString} the c32check representation
  */
-export function c32checkEncode(version: number, data: string): string {
+export function c32checkEncode(version: number, input: string | Uint8Array): C32CheckString {
   if (version < 0 || version >= 32) {
-    throw new Error('Invalid version (must be between 0 and 31)');
-  }
-  if (!data.match(/^[0-9a-fA-F]*$/)) {
-    throw new Error('Invalid data (not a hex string)');
+    throw new C32VersionError(version);
   }
+  let data = toHex(input, 'Invalid data (not a hex string)');
 
   data = data.toLowerCase();
   if (data.length % 2 !== 0) {
@@ -44,7 +67,18 @@ export function c32checkEncode(version: number, data: string): string {
 
   const checksumHex = c32checksum(`${versionHex}${data}`);
   const c32str = c32encode(`${data}${checksumHex}`);
-  return `${c32[version]}${c32str}`;
+  return `${c32[version]}${c32str}` as C32CheckString;
+}
+
+/**
+ * Encode bytes as a c32check string.  Byte-oriented counterpart of
+ * `c32checkEncode`.
+ * @param {number} version - the version number (between 0 and 31)
+ * @param {Uint8Array} data - the bytes to encode
+ * @returns {C32CheckString} the c32check representation
+ */
+export function c32checkEncodeBytes(version: number, data: Uint8Array): C32CheckString {
+  return c32checkEncode(version, data);
 }
 
 /*
@@ -56,11 +90,26 @@ export function c32checkEncode(version: number, data: string): string {
  * * verify the checksum matches c32checksum(version + data)
  * * return data
  * @param {string} c32data - the c32check-encoded string
+ * @param {C32DecodeOptions} options - decoding options; `strict` rejects
+ *   input that is not exactly what c32checkEncode() would produce
  * @returns {array} [version (number), data (string)].  The returned data
  * will be a hex string.  Throws an exception if the checksum does not match.
  */
-export function c32checkDecode(c32data: string): [number, string] {
+export function c32checkDecode(c32data: string, options: C32DecodeOptions = {}): [number, string] {
+  if (options.strict) {
+    assertC32Canonical(c32data);
+  }
+  const originalInput = c32data;
   c32data = c32normalize(c32data);
+
+  const invalidIndex = findInvalidCharacter(c32data, c32);
+  if (invalidIndex >= 0) {
+    throw new C32InvalidCharacterError(originalInput, invalidIndex);
+  }
+  if (c32data.length < 2) {
+    throw new C32LengthError(originalInput, 'Invalid c32check string: too short');
+  }
+
   const dataHex = c32decode(c32data.slice(1));
   const versionChar = c32data[0];
   const version = c32.indexOf(versionChar);
@@ -72,8 +121,32 @@ export function c32checkDecode(c32data: string): [number, string] {
   }
 
   if (c32checksum(`${versionHex}${dataHex.substring(0, dataHex.length - 8)}`) !== checksum) {
-    throw new Error('Invalid c32check string: checksum mismatch');
+    throw new C32ChecksumError(originalInput);
+  }
+
+  const data = dataHex.substring(0, dataHex.length - 8);
+  if (options.strict && c32checkEncode(version, data) !== c32data) {
+    throw new C32NonCanonicalError(
+      originalInput,
+      'Invalid c32check string: non-canonical encoding'
+    );
   }
 
-  return [version, dataHex.substring(0, dataHex.length - 8)];
+  return [version, data];
+}
+
+/**
+ * Decode a c32check string into its version and payload bytes.
+ * Byte-oriented counterpart of `c32checkDecode`.
+ * @param {string} c32data - the c32check-encoded string
+ * @param {C32DecodeOptions} options - decoding options
+ * @returns {C32CheckBytes} the version and data bytes.  Throws an exception
+ * if the checksum does not match.
+ */
+export function c32checkDecodeBytes(
+  c32data: string,
+  options: C32DecodeOptions = {}
+): C32CheckBytes {
+  const [version, dataHex] = c32checkDecode(c32data, options);
+  return { version, data: hexToBytes(dataHex) };
 }
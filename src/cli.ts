@@ -0,0 +1,227 @@
+#!/usr/bin/env node
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { b58ToC32, c32address, c32addressDecode, c32ToB58 } from './address';
+import { BatchResult, captureResult, resultToJSON } from './batch';
+import { c32checkDecode, c32checkEncode } from './checksum';
+import { c32decode, c32encode } from './encoding';
+
+/**
+ * The streams the command-line tool reads from and writes to.
+ */
+export interface CliIO {
+  stdin: NodeJS.ReadableStream & { isTTY?: boolean };
+  stdout: { write(text: string): unknown };
+  stderr: { write(text: string): unknown };
+}
+
+/*
+ * A subcommand.  `version` says whether it takes an `--addr-version` option.
+ */
+interface Command {
+  args: string;
+  description: string;
+  version: 'required' | 'optional' | 'none';
+  run: (input: string, version: number) => unknown;
+}
+
+const COMMANDS: Record<string, Command> = {
+  encode: {
+    args: '<hex>',
+    description: 'c32-encode hex data',
+    version: 'none',
+    run: input => c32encode(input),
+  },
+  decode: {
+    args: '<c32>',
+    description: 'decode a c32 string to hex',
+    version: 'none',
+    run: input => c32decode(input),
+  },
+  'check-encode': {
+    args: '--addr-version <n> <hex>',
+    description: 'c32check-encode hex data with a version',
+    version: 'required',
+    run: (input, version) => c32checkEncode(version, input),
+  },
+  'check-decode': {
+    args: '<c32check>',
+    description: 'decode a c32check string to its version and hex data',
+    version: 'none',
+    run: input => c32checkDecode(input),
+  },
+  address: {
+    args: '--addr-version <n> <hash160>',
+    description: 'make a c32 address from a version and hash160',
+    version: 'required',
+    run: (input, version) => c32address(version, input),
+  },
+  'address-decode': {
+    args: '<address>',
+    description: 'decode a c32 address to its version and hash160',
+    version: 'none',
+    run: input => c32addressDecode(input),
+  },
+  'b58-to-c32': {
+    args: '[--addr-version <n>] <b58check address>',
+    description: 'convert a base58check address to a c32 address',
+    version: 'optional',
+    run: (input, version) => b58ToC32(input, version),
+  },
+  'c32-to-b58': {
+    args: '[--addr-version <n>] <c32 address>',
+    description: 'convert a c32 address to a base58check address',
+    version: 'optional',
+    run: (input, version) => c32ToB58(input, version),
+  },
+};
+
+// the options, other than those of the commands, with their descriptions
+const OPTIONS: [string, string][] = [
+  ['--json', 'print one line of JSON per input'],
+  ['--addr-version <n>', 'the version number, for commands that take one'],
+  ['--version', 'print the version of c32check'],
+  ['-h, --help', 'print this help'],
+];
+
+const USAGE = `Usage: c32check <command> [--json] [options] [inputs...]
+
+Reads inputs from the arguments, or one per line from standard input.
+Prints one result per input; with --json, one line of JSON per input.
+Exits with status 1 if any input is invalid.
+
+Commands:
+${Object.keys(COMMANDS)
+  .map(name => `  ${`${name} ${COMMANDS[name].args}`.padEnd(54)}${COMMANDS[name].description}`)
+  .join('\n')}
+
+Options:
+${OPTIONS.map(([option, description]) => `  ${option.padEnd(54)}${description}`).join('\n')}
+`;
+
+/*
+ * Read the package version from package.json, which sits next to the src/
+ * and lib/ directories.
+ */
+function packageVersion(): string {
+  const packageJson = readFileSync(join(__dirname, '..', 'package.json'), 'utf8');
+  return (JSON.parse(packageJson) as { version: string }).version;
+}
+
+/*
+ * Format a successful result for plain-text output: tuples are printed
+ * space-separated, e.g. `22 a46ff888...`.
+ */
+function formatValue(value: unknown): string {
+  return Array.isArray(value) ? value.join(' ') : String(value);
+}
+
+/*
+ * Call `onLine` for each non-blank line of a stream.
+ */
+function readLines(stream: NodeJS.ReadableStream, onLine: (line: string) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const lines = createInterface({ input: stream });
+    lines.on('line', (line: string) => {
+      if (line.trim().length > 0) {
+        onLine(line.trim());
+      }
+    });
+    lines.on('close', () => resolve());
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Run the c32check command-line tool.
+ * @param {string[]} argv - the arguments, without the node and script paths
+ * @param {CliIO} io - the streams to use (defaults to the process's)
+ * @returns {Promise<number>} the exit status: 0 on success, 1 if any input
+ *   was invalid, 2 on a usage error
+ */
+export async function runCli(argv: string[], io: CliIO = process): Promise<number> {
+  const usageError = (message: string) => {
+    io.stderr.write(`c32check: ${message}\n\n${USAGE}`);
+    return 2;
+  };
+
+  let json = false;
+  let version: string | undefined;
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') {
+      io.stdout.write(USAGE);
+      return 0;
+    } else if (arg === '--version') {
+      io.stdout.write(`${packageVersion()}\n`);
+      return 0;
+    } else if (arg === '--json') {
+      json = true;
+    } else if (arg === '--addr-version') {
+      version = argv[++i];
+      if (version === undefined) {
+        return usageError('missing value for --addr-version');
+      }
+    } else if (arg.startsWith('--addr-version=')) {
+      version = arg.slice('--addr-version='.length);
+    } else if (arg.startsWith('--') && arg.length > 2) {
+      return usageError(`unknown option ${arg}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [name, ...inputs] = positional;
+  if (name === undefined) {
+    return usageError('missing command');
+  }
+  if (!Object.prototype.hasOwnProperty.call(COMMANDS, name)) {
+    return usageError(`unknown command ${name}`);
+  }
+  const command = COMMANDS[name];
+
+  let versionNumber = -1;
+  if (version !== undefined) {
+    if (command.version === 'none') {
+      return usageError(`${name} does not take --addr-version`);
+    }
+    if (!/^\d+$/.test(version)) {
+      return usageError(`invalid --addr-version ${version}`);
+    }
+    versionNumber = parseInt(version, 10);
+  } else if (command.version === 'required') {
+    return usageError(`${name} requires --addr-version`);
+  }
+
+  let failed = false;
+  const convert = (input: string) => {
+    const result: BatchResult<unknown> = captureResult(input, () =>
+      command.run(input, versionNumber)
+    );
+    if (json) {
+      io.stdout.write(`${resultToJSON(result)}\n`);
+    } else if (result.ok) {
+      io.stdout.write(`${formatValue(result.value)}\n`);
+    } else {
+      io.stderr.write(`c32check: ${input}: ${result.error.message}\n`);
+    }
+    failed = failed || !result.ok;
+  };
+
+  if (inputs.length > 0) {
+    inputs.forEach(convert);
+  } else if (io.stdin.isTTY) {
+    return usageError('no inputs given');
+  } else {
+    await readLines(io.stdin, convert);
+  }
+  return failed ? 1 : 0;
+}
+
+if (require.main === module) {
+  void runCli(process.argv.slice(2)).then(status => {
+    process.exitCode = status;
+  });
+}
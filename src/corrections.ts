@@ -0,0 +1,121 @@
+import { c32addressDecode } from './address';
+import { c32, c32normalize } from './encoding';
+
+/**
+ * The kind of single edit that turns a mistyped address into a valid one.
+ * In ranking order:
+ * * `confusion` - a character replaced by a commonly confused look-alike
+ * * `transposition` - two adjacent characters swapped
+ * * `substitution` - any other single-character replacement
+ * * `insertion` - a missing character inserted
+ * * `deletion` - an extra character removed
+ */
+export type CorrectionEdit =
+  | 'confusion'
+  | 'transposition'
+  | 'substitution'
+  | 'insertion'
+  | 'deletion';
+
+/**
+ * A suggested correction for a mistyped c32 address.
+ * @property {string} address - the corrected address
+ * @property {CorrectionEdit} edit - the kind of edit that was applied
+ * @property {number} index - the position in the input at which the edit was applied
+ */
+export interface AddressCorrection {
+  address: string;
+  edit: CorrectionEdit;
+  index: number;
+}
+
+const EDIT_RANK: Record<CorrectionEdit, number> = {
+  confusion: 0,
+  transposition: 1,
+  substitution: 2,
+  insertion: 3,
+  deletion: 4,
+};
+
+// Look-alike characters that survive c32normalize().  O, I and L are not
+// listed, since normalization already reads them as 0 and 1.
+const CONFUSABLE: Record<string, string> = {
+  '2': 'Z',
+  '5': 'S',
+  '6': 'G',
+  '8': 'B',
+  B: '8',
+  G: '6',
+  S: '5',
+  U: 'V',
+  Z: '2',
+};
+
+/*
+ * Check whether a (normalized) string is a valid c32 address.
+ * @param {string} candidate - the candidate address
+ * @returns {boolean} true if it decodes to a version and a hash160
+ */
+function isValidAddress(candidate: string): boolean {
+  try {
+    c32addressDecode(candidate);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Suggest corrections for a c32 address that fails to decode, e.g. because
+ * its checksum does not match.  Searches all single-character substitutions,
+ * adjacent transpositions, and single missing or extra characters, and
+ * returns the candidates that are valid addresses, best guesses first.
+ * @param {string} address - the mistyped address
+ * @returns {AddressCorrection[]} the ranked corrections; empty if `address`
+ *   is already valid or no single edit fixes it
+ */
+export function suggestCorrections(address: string): AddressCorrection[] {
+  const input = c32normalize(address);
+  if (isValidAddress(input)) {
+    return [];
+  }
+
+  const found = new Map<string, AddressCorrection>();
+  const consider = (candidate: string, edit: CorrectionEdit, index: number) => {
+    const existing = found.get(candidate);
+    if (existing && EDIT_RANK[existing.edit] <= EDIT_RANK[edit]) {
+      return;
+    }
+    if (isValidAddress(candidate)) {
+      found.set(candidate, { address: candidate, edit, index });
+    }
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const before = input.slice(0, i);
+    const after = input.slice(i + 1);
+
+    for (const char of c32) {
+      if (char !== input[i]) {
+        const edit = CONFUSABLE[input[i]] === char ? 'confusion' : 'substitution';
+        consider(`${before}${char}${after}`, edit, i);
+      }
+    }
+
+    if (i + 1 < input.length && input[i] !== input[i + 1]) {
+      consider(`${before}${input[i + 1]}${input[i]}${input.slice(i + 2)}`, 'transposition', i);
+    }
+
+    consider(`${before}${after}`, 'deletion', i);
+  }
+
+  for (let i = 0; i <= input.length; i++) {
+    for (const char of c32) {
+      consider(`${input.slice(0, i)}${char}${input.slice(i)}`, 'insertion', i);
+    }
+  }
+
+  return Array.from(found.values()).sort(
+    (a, b) => EDIT_RANK[a.edit] - EDIT_RANK[b.edit] || a.index - b.index
+  );
+}
@@ -1,85 +1,181 @@
-import { hexToBytes } from '@noble/hashes/utils';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import {
+  C32ChecksumError,
+  C32InvalidCharacterError,
+  C32LengthError,
+  C32NonCanonicalError,
+} from './errors';
+import { findInvalidCharacter, toHex } from './utils';
 
 export const c32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
-const hex = '0123456789abcdef';
+
+/**
+ * Options for decoding c32 and c32check strings.
+ */
+export interface C32DecodeOptions {
+  /**
+   * Reject input that is not in canonical form: lowercase letters, the
+   * substitutable characters O, I and L, and any string that does not
+   * re-encode to exactly the same string.
+   */
+  strict?: boolean;
+}
+
+/**
+ * Options for the parts of Crockford's base-32 spec that Stacks does not use.
+ */
+export interface C32CrockfordOptions {
+  /**
+   * Ignore hyphens, which Crockford's spec allows as separators, when
+   * decoding or normalizing.  They are never emitted when encoding.
+   */
+  crockford?: boolean;
+  /**
+   * Append a mod-37 check symbol when encoding; require one, and verify
+   * and remove it, when decoding.  Implies `crockford`.
+   */
+  checkSymbol?: boolean;
+}
+
+// Crockford's check symbols: the c32 digits for 0 to 31, then these for 32 to 36
+const CHECK_SYMBOLS = `${c32}*~$=U`;
+
+// c32 digit values by character code, for canonical c32 characters only; -1 otherwise
+const C32_VALUES = new Int8Array(128).fill(-1);
+for (let i = 0; i < c32.length; i++) {
+  C32_VALUES[c32.charCodeAt(i)] = i;
+}
+
+/*
+ * Compute the Crockford check symbol of a canonical c32 string: the symbol for
+ * its value mod 37.
+ */
+function c32checkSymbol(c32input: string): string {
+  let remainder = 0;
+  for (let i = 0; i < c32input.length; i++) {
+    remainder = (remainder * 32 + C32_VALUES[c32input.charCodeAt(i)]) % 37;
+  }
+  return CHECK_SYMBOLS[remainder];
+}
+
+/*
+ * Count the zero bytes at the start of a byte array.
+ */
+function countLeadingZeroBytes(data: Uint8Array): number {
+  let count = 0;
+  while (count < data.length && data[count] === 0) {
+    count++;
+  }
+  return count;
+}
 
 /**
  * Encode a hex string as a c32 string.  Note that the hex string is assumed
  * to be big-endian (and the resulting c32 string will be as well).
- * @param {string} inputHex - the input to encode
- * @param {number} minLength - the minimum length of the c32 string
+ * @param {string | Uint8Array} input - the input to encode, as (optionally
+ *   0x-prefixed) hex or bytes
+ * @param {number} minLength - the minimum length of the c32 string, not
+ *   counting any check symbol
+ * @param {C32CrockfordOptions} options - whether to append a Crockford check symbol
  * @returns {string} the c32check-encoded representation of the data, as a string
  */
-export function c32encode(inputHex: string, minLength?: number): string {
-  // must be hex
-  if (!inputHex.match(/^[0-9a-fA-F]*$/)) {
-    throw new Error('Not a hex-encoded string');
+export function c32encode(
+  input: string | Uint8Array,
+  minLength?: number,
+  options: C32CrockfordOptions = {}
+): string {
+  if (input instanceof Uint8Array) {
+    return c32encodeBytes(input, minLength, options);
   }
 
+  // must be hex
+  let inputHex = toHex(input, 'Not a hex-encoded string');
   if (inputHex.length % 2 !== 0) {
     inputHex = `0${inputHex}`;
   }
+  return c32encodeBytes(hexToBytes(inputHex), minLength, options);
+}
 
-  inputHex = inputHex.toLowerCase();
-
-  let res = [];
-  let carry = 0;
-  for (let i = inputHex.length - 1; i >= 0; i--) {
-    if (carry < 4) {
-      const currentCode = hex.indexOf(inputHex[i]) >> carry;
-      let nextCode = 0;
-      if (i !== 0) {
-        nextCode = hex.indexOf(inputHex[i - 1]);
-      }
-      // carry = 0, nextBits is 1, carry = 1, nextBits is 2
-      const nextBits = 1 + carry;
-      const nextLowBits = nextCode % (1 << nextBits) << (5 - nextBits);
-      const curC32Digit = c32[currentCode + nextLowBits];
-      carry = nextBits;
-      res.unshift(curC32Digit);
-    } else {
-      carry = 0;
-    }
+/**
+ * Encode bytes as a c32 string.  Byte-oriented counterpart of `c32encode`.
+ * @param {Uint8Array} data - the bytes to encode
+ * @param {number} minLength - the minimum length of the c32 string, not
+ *   counting any check symbol
+ * @param {C32CrockfordOptions} options - whether to append a Crockford check symbol
+ * @returns {string} the c32-encoded representation of the data
+ */
+export function c32encodeBytes(
+  data: Uint8Array,
+  minLength?: number,
+  options: C32CrockfordOptions = {}
+): string {
+  if (!(data instanceof Uint8Array)) {
+    throw new TypeError('Argument must be of type Uint8Array or string');
   }
 
-  let C32leadingZeros = 0;
-  for (let i = 0; i < res.length; i++) {
-    if (res[i] !== '0') {
-      break;
-    } else {
-      C32leadingZeros++;
+  // Read the data as a big-endian number, 5 bits at a time from the least
+  // significant end, and emit one c32 digit per 5 bits.
+  const digits: string[] = [];
+  let accumulator = 0;
+  let bits = 0;
+  for (let i = data.length - 1; i >= 0; i--) {
+    accumulator |= data[i] << bits;
+    bits += 8;
+    while (bits >= 5) {
+      digits.push(c32[accumulator & 31]);
+      accumulator >>>= 5;
+      bits -= 5;
     }
   }
-
-  res = res.slice(C32leadingZeros);
-
-  const zeroPrefix = new TextDecoder().decode(hexToBytes(inputHex)).match(/^\u0000*/);
-  const numLeadingZeroBytesInHex = zeroPrefix ? zeroPrefix[0].length : 0;
-
-  for (let i = 0; i < numLeadingZeroBytesInHex; i++) {
-    res.unshift(c32[0]);
+  if (bits > 0) {
+    digits.push(c32[accumulator]);
   }
 
-  if (minLength) {
-    const count = minLength - res.length;
-    for (let i = 0; i < count; i++) {
-      res.unshift(c32[0]);
-    }
+  // Drop the digits' leading zeros, then write one '0' per leading zero byte.
+  let end = digits.length;
+  while (end > 0 && digits[end - 1] === c32[0]) {
+    end--;
   }
+  const zeros = countLeadingZeroBytes(data);
+  const length = Math.max(zeros + end, minLength || 0);
 
-  return res.join('');
+  let result = c32[0].repeat(length - end);
+  for (let i = end - 1; i >= 0; i--) {
+    result += digits[i];
+  }
+  return options.checkSymbol ? `${result}${c32checkSymbol(result)}` : result;
 }
 
 /*
  * Normalize a c32 string
  * @param {string} c32input - the c32-encoded input string
+ * @param {C32CrockfordOptions} options - whether to remove hyphens
  * @returns {string} the canonical representation of the c32 input string
  */
-export function c32normalize(c32input: string): string {
+export function c32normalize(c32input: string, options: C32CrockfordOptions = {}): string {
   // must be upper-case
   // replace all O's with 0's
   // replace all I's and L's with 1's
-  return c32input.toUpperCase().replace(/O/g, '0').replace(/L|I/g, '1');
+  // in Crockford mode, remove all hyphens
+  const normalized = c32input.toUpperCase().replace(/O/g, '0').replace(/L|I/g, '1');
+  return options.crockford || options.checkSymbol ? normalized.replace(/-/g, '') : normalized;
+}
+
+/*
+ * Check that a c32 string only uses canonical c32 characters, i.e. that
+ * c32normalize() would leave it unchanged.
+ * @param {string} c32input - the c32-encoded input string
+ * @param {string} alphabet - the canonical characters (defaults to the c32 digits)
+ */
+export function assertC32Canonical(c32input: string, alphabet: string = c32): void {
+  const index = findInvalidCharacter(c32input, alphabet);
+  if (index >= 0) {
+    throw new C32InvalidCharacterError(
+      c32input,
+      index,
+      'Invalid c32 string: not in canonical form'
+    );
+  }
 }
 
 /*
@@ -88,67 +184,112 @@ export function c32normalize(c32input: string): string {
  * be as well).
  * @param {string} c32input - the c32-encoded input to decode
  * @param {number} minLength - the minimum length of the output hex string (in bytes)
+ * @param {C32DecodeOptions & C32CrockfordOptions} options - decoding options;
+ *   `strict` rejects non-canonical input instead of normalizing it, and
+ *   `crockford` and `checkSymbol` enable Crockford's hyphens and check symbol
  * @returns {string} the hex-encoded representation of the data, as a string
  */
-export function c32decode(c32input: string, minLength?: number): string {
-  c32input = c32normalize(c32input);
+export function c32decode(
+  c32input: string,
+  minLength?: number,
+  options: C32DecodeOptions & C32CrockfordOptions = {}
+): string {
+  return bytesToHex(c32decodeBytes(c32input, minLength, options));
+}
+
+/**
+ * Decode a c32 string into bytes.  Byte-oriented counterpart of `c32decode`.
+ * @param {string} c32input - the c32-encoded input to decode
+ * @param {number} minLength - the minimum length of the output (in bytes)
+ * @param {C32DecodeOptions & C32CrockfordOptions} options - decoding options
+ * @returns {Uint8Array} the decoded bytes
+ */
+export function c32decodeBytes(
+  c32input: string,
+  minLength?: number,
+  options: C32DecodeOptions & C32CrockfordOptions = {}
+): Uint8Array {
+  const originalInput = c32input;
+  const crockford = options.crockford || options.checkSymbol;
 
-  // must result in a c32 string
-  if (!c32input.match(`^[${c32}]*$`)) {
-    throw new Error('Not a c32-encoded string');
+  let checkSymbol: string | undefined;
+  if (options.checkSymbol) {
+    if (c32input.length === 0) {
+      throw new C32LengthError(originalInput, 'Invalid c32 string: missing check symbol');
+    }
+    checkSymbol = c32input[c32input.length - 1];
+    c32input = c32input.slice(0, -1);
   }
 
-  const zeroPrefix = c32input.match(`^${c32[0]}*`);
-  const numLeadingZeroBytes = zeroPrefix ? zeroPrefix[0].length : 0;
+  if (options.strict) {
+    assertC32Canonical(c32input, crockford ? `${c32}-` : c32);
+  }
+  c32input = c32normalize(c32input);
 
-  let res = [];
-  let carry = 0;
-  let carryBits = 0;
-  for (let i = c32input.length - 1; i >= 0; i--) {
-    if (carryBits === 4) {
-      res.unshift(hex[carry]);
-      carryBits = 0;
-      carry = 0;
-    }
-    const currentCode = c32.indexOf(c32input[i]) << carryBits;
-    const currentValue = currentCode + carry;
-    const currentHexDigit = hex[currentValue % 16];
-    carryBits += 1;
-    carry = currentValue >> 4;
-    if (carry > 1 << carryBits) {
-      throw new Error('Panic error in decoding.');
+  // must result in a c32 string, hyphens aside in Crockford mode
+  for (let i = 0; i < c32input.length; i++) {
+    const code = c32input.charCodeAt(i);
+    if ((code >= C32_VALUES.length || C32_VALUES[code] < 0) && !(crockford && code === 0x2d)) {
+      throw new C32InvalidCharacterError(originalInput, i);
     }
-    res.unshift(currentHexDigit);
   }
-  // one last carry
-  res.unshift(hex[carry]);
-
-  if (res.length % 2 === 1) {
-    res.unshift('0');
+  if (crockford) {
+    c32input = c32input.replace(/-/g, '');
   }
 
-  let hexLeadingZeros = 0;
-  for (let i = 0; i < res.length; i++) {
-    if (res[i] !== '0') {
-      break;
-    } else {
-      hexLeadingZeros++;
+  if (checkSymbol !== undefined) {
+    const symbol = CHECK_SYMBOLS.indexOf(options.strict ? checkSymbol : c32normalize(checkSymbol));
+    if (symbol < 0) {
+      throw new C32InvalidCharacterError(
+        originalInput,
+        originalInput.length - 1,
+        'Invalid c32 string: invalid check symbol'
+      );
+    }
+    if (CHECK_SYMBOLS[symbol] !== c32checkSymbol(c32input)) {
+      throw new C32ChecksumError(originalInput, 'Invalid c32 string: check symbol mismatch');
     }
   }
 
-  res = res.slice(hexLeadingZeros - (hexLeadingZeros % 2));
+  // Read the digits as a big-endian number, 5 bits at a time from the least
+  // significant end, and emit one byte per 8 bits.
+  const bytes = new Uint8Array(Math.ceil((c32input.length * 5) / 8));
+  let position = bytes.length;
+  let accumulator = 0;
+  let bits = 0;
+  for (let i = c32input.length - 1; i >= 0; i--) {
+    accumulator |= C32_VALUES[c32input.charCodeAt(i)] << bits;
+    bits += 5;
+    if (bits >= 8) {
+      bytes[--position] = accumulator & 0xff;
+      accumulator >>>= 8;
+      bits -= 8;
+    }
+  }
+  if (bits > 0) {
+    bytes[--position] = accumulator;
+  }
 
-  let hexStr = res.join('');
-  for (let i = 0; i < numLeadingZeroBytes; i++) {
-    hexStr = `00${hexStr}`;
+  // Drop the number's leading zero bytes, then write one zero byte per
+  // leading '0' digit, padding to `minLength` bytes.
+  let start = position;
+  while (start < bytes.length && bytes[start] === 0) {
+    start++;
+  }
+  let zeros = 0;
+  while (zeros < c32input.length && c32input[zeros] === c32[0]) {
+    zeros++;
   }
+  const valueLength = bytes.length - start;
+  const result = new Uint8Array(Math.max(zeros + valueLength, minLength || 0));
+  result.set(bytes.subarray(start), result.length - valueLength);
 
-  if (minLength) {
-    const count = minLength * 2 - hexStr.length;
-    for (let i = 0; i < count; i += 2) {
-      hexStr = `00${hexStr}`;
+  if (options.strict) {
+    const canonical = c32encodeBytes(result.subarray(result.length - valueLength - zeros));
+    if (canonical !== c32input) {
+      throw new C32NonCanonicalError(originalInput, 'Invalid c32 string: non-canonical encoding');
     }
   }
 
-  return hexStr;
+  return result;
 }
@@ -0,0 +1,312 @@
+/**
+ * Machine-readable codes carried by every error this library throws.
+ */
+export type C32ErrorCode =
+  | 'INVALID_CHARACTER'
+  | 'INVALID_HEX'
+  | 'INVALID_LENGTH'
+  | 'INVALID_VERSION'
+  | 'CHECKSUM_MISMATCH'
+  | 'NON_CANONICAL'
+  | 'INVALID_PRINCIPAL'
+  | 'INVALID_CONTRACT_NAME'
+  | 'INVALID_NETWORK'
+  | 'UNSUPPORTED_ADDRESS_TYPE'
+  | 'INVALID_PUBLIC_KEY'
+  | 'INVALID_PRIVATE_KEY'
+  | 'INVALID_MULTISIG'
+  | 'INVALID_URI'
+  | 'INVALID_INTEGER'
+  | 'BASE58_INVALID_CHARACTER'
+  | 'BASE58_CHECKSUM_MISMATCH'
+  | 'BECH32_INVALID_CHARACTER'
+  | 'BECH32_CHECKSUM_MISMATCH'
+  | 'BECH32_INVALID_FORMAT';
+
+/**
+ * Base class for all errors thrown by this library.
+ * @property {C32ErrorCode} code - a stable, machine-readable error code
+ * @property {unknown} input - the offending input
+ */
+export class C32Error extends Error {
+  readonly code: C32ErrorCode;
+  readonly input: unknown;
+
+  constructor(code: C32ErrorCode, message: string, input: unknown) {
+    super(message);
+    this.name = 'C32Error';
+    this.code = code;
+    this.input = input;
+  }
+}
+
+/**
+ * A c32 string contains a character outside of the c32 alphabet (or, in
+ * strict mode, a character that is not in canonical form).
+ * @property {number} index - the index of the first bad character in `input`
+ */
+export class C32InvalidCharacterError extends C32Error {
+  readonly input: string;
+  readonly index: number;
+
+  constructor(input: string, index: number, message: string = 'Not a c32-encoded string') {
+    super('INVALID_CHARACTER', message, input);
+    this.name = 'C32InvalidCharacterError';
+    this.input = input;
+    this.index = index;
+  }
+}
+
+/**
+ * A hex string argument contains a non-hex character.
+ * @property {number} index - the index of the first bad character in `input`
+ */
+export class C32InvalidHexError extends C32Error {
+  readonly input: string;
+  readonly index: number;
+
+  constructor(input: string, index: number, message: string = 'Not a hex-encoded string') {
+    super('INVALID_HEX', message, input);
+    this.name = 'C32InvalidHexError';
+    this.input = input;
+    this.index = index;
+  }
+}
+
+/**
+ * An input or payload has the wrong length.
+ */
+export class C32LengthError extends C32Error {
+  constructor(input: unknown, message: string) {
+    super('INVALID_LENGTH', message, input);
+    this.name = 'C32LengthError';
+  }
+}
+
+/**
+ * A version number is out of range.
+ */
+export class C32VersionError extends C32Error {
+  readonly input: number;
+
+  constructor(input: number, message: string = 'Invalid version (must be between 0 and 31)') {
+    super('INVALID_VERSION', message, input);
+    this.name = 'C32VersionError';
+    this.input = input;
+  }
+}
+
+/**
+ * A c32check string's checksum does not match its version and payload.
+ */
+export class C32ChecksumError extends C32Error {
+  readonly input: string;
+
+  constructor(input: string, message: string = 'Invalid c32check string: checksum mismatch') {
+    super('CHECKSUM_MISMATCH', message, input);
+    this.name = 'C32ChecksumError';
+    this.input = input;
+  }
+}
+
+/**
+ * In strict mode, a c32 or c32check string decodes, but does not re-encode to
+ * the same string.
+ */
+export class C32NonCanonicalError extends C32Error {
+  readonly input: string;
+
+  constructor(input: string, message: string) {
+    super('NON_CANONICAL', message, input);
+    this.name = 'C32NonCanonicalError';
+    this.input = input;
+  }
+}
+
+/**
+ * A string is not a well-formed principal, e.g. a contract principal
+ * without a contract name.
+ */
+export class C32PrincipalError extends C32Error {
+  readonly input: string;
+
+  constructor(input: string, message: string) {
+    super('INVALID_PRINCIPAL', message, input);
+    this.name = 'C32PrincipalError';
+    this.input = input;
+  }
+}
+
+/**
+ * A contract name does not follow Clarity's naming rules.
+ */
+export class C32ContractNameError extends C32Error {
+  readonly input: string;
+
+  constructor(input: string, message: string = 'Invalid contract name') {
+    super('INVALID_CONTRACT_NAME', message, input);
+    this.name = 'C32ContractNameError';
+    this.input = input;
+  }
+}
+
+/**
+ * A network is unknown, cannot be registered, or does not match an address.
+ */
+export class C32NetworkError extends C32Error {
+  constructor(input: unknown, message: string) {
+    super('INVALID_NETWORK', message, input);
+    this.name = 'C32NetworkError';
+  }
+}
+
+/**
+ * An address is valid, but has no equivalent in the requested format, e.g.
+ * a Taproot address, which has no c32 counterpart.
+ */
+export class C32UnsupportedAddressError extends C32Error {
+  readonly input: string;
+
+  constructor(input: string, message: string) {
+    super('UNSUPPORTED_ADDRESS_TYPE', message, input);
+    this.name = 'C32UnsupportedAddressError';
+    this.input = input;
+  }
+}
+
+/**
+ * A public key has the wrong prefix for its length, or is not a point on
+ * the secp256k1 curve.
+ */
+export class C32PublicKeyError extends C32Error {
+  readonly input: string | Uint8Array;
+
+  constructor(input: string | Uint8Array, message: string) {
+    super('INVALID_PUBLIC_KEY', message, input);
+    this.name = 'C32PublicKeyError';
+    this.input = input;
+  }
+}
+
+/**
+ * A private key is out of range for secp256k1, or a WIF key is malformed.
+ */
+export class C32PrivateKeyError extends C32Error {
+  readonly input: string | Uint8Array;
+
+  constructor(input: string | Uint8Array, message: string) {
+    super('INVALID_PRIVATE_KEY', message, input);
+    this.name = 'C32PrivateKeyError';
+    this.input = input;
+  }
+}
+
+/**
+ * A multisig signer set, threshold or script is invalid, e.g. a threshold
+ * larger than the number of keys, or an uncompressed key in a witness hash mode.
+ */
+export class C32MultisigError extends C32Error {
+  constructor(input: unknown, message: string) {
+    super('INVALID_MULTISIG', message, input);
+    this.name = 'C32MultisigError';
+  }
+}
+
+/**
+ * A payment URI is malformed, e.g. it has the wrong scheme, an invalid
+ * amount, or a required parameter this library does not understand.
+ */
+export class C32UriError extends C32Error {
+  readonly input: string;
+
+  constructor(input: string, message: string) {
+    super('INVALID_URI', message, input);
+    this.name = 'C32UriError';
+    this.input = input;
+  }
+}
+
+/**
+ * An integer to encode is negative, or a number that is not a safe integer.
+ */
+export class C32IntegerError extends C32Error {
+  readonly input: bigint | number;
+
+  constructor(input: bigint | number, message: string) {
+    super('INVALID_INTEGER', message, input);
+    this.name = 'C32IntegerError';
+    this.input = input;
+  }
+}
+
+/**
+ * A base58check string contains a character outside of the base58 alphabet.
+ * @property {number} index - the index of the first bad character in `input`
+ */
+export class Base58InvalidCharacterError extends C32Error {
+  readonly input: string;
+  readonly index: number;
+
+  constructor(input: string, index: number, message: string = 'Non-base58 character') {
+    super('BASE58_INVALID_CHARACTER', message, input);
+    this.name = 'Base58InvalidCharacterError';
+    this.input = input;
+    this.index = index;
+  }
+}
+
+/**
+ * A base58check string's checksum does not match its prefix and payload.
+ */
+export class Base58ChecksumError extends C32Error {
+  readonly input: string;
+
+  constructor(input: string, message: string = 'Invalid checksum') {
+    super('BASE58_CHECKSUM_MISMATCH', message, input);
+    this.name = 'Base58ChecksumError';
+    this.input = input;
+  }
+}
+
+/**
+ * A bech32 string contains a character outside of the bech32 alphabet.
+ * @property {number} index - the index of the first bad character in `input`
+ */
+export class Bech32InvalidCharacterError extends C32Error {
+  readonly input: string;
+  readonly index: number;
+
+  constructor(input: string, index: number, message: string = 'Invalid bech32 character') {
+    super('BECH32_INVALID_CHARACTER', message, input);
+    this.name = 'Bech32InvalidCharacterError';
+    this.input = input;
+    this.index = index;
+  }
+}
+
+/**
+ * A bech32 string's checksum is neither a valid bech32 nor bech32m checksum.
+ */
+export class Bech32ChecksumError extends C32Error {
+  readonly input: string;
+
+  constructor(input: string, message: string = 'Invalid bech32 checksum') {
+    super('BECH32_CHECKSUM_MISMATCH', message, input);
+    this.name = 'Bech32ChecksumError';
+    this.input = input;
+  }
+}
+
+/**
+ * A bech32 string or SegWit address is malformed, e.g. uses mixed case, an
+ * invalid witness version, or the wrong checksum variant for its version.
+ */
+export class Bech32FormatError extends C32Error {
+  readonly input: string;
+
+  constructor(input: string, message: string) {
+    super('BECH32_INVALID_FORMAT', message, input);
+    this.name = 'Bech32FormatError';
+    this.input = input;
+  }
+}
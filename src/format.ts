@@ -0,0 +1,80 @@
+import { c32address, c32addressDecode } from './address';
+
+/**
+ * How formatAddress() displays an address.
+ * * `truncate` - the first and last few characters, e.g. `SP2J6Z…V9EJ7`.
+ *   For display only: truncated addresses cannot be decoded.
+ * * `grouped` - the whole address in groups, e.g. `SP2J 6ZY4 8GV1 ...`.
+ *   c32addressDecode() accepts this form with the `grouped` option.
+ */
+export type AddressFormatStyle = 'truncate' | 'grouped';
+
+/**
+ * Options for formatAddress().
+ * @property {AddressFormatStyle} style - how to display the address (defaults to truncate)
+ * @property {number} head - with `truncate`, the number of leading characters to keep (defaults to 6)
+ * @property {number} tail - with `truncate`, the number of trailing characters to keep (defaults to 5)
+ * @property {number} groupSize - with `grouped`, the number of characters per group (defaults to 4)
+ * @property {string} separator - with `grouped`, the separator between groups (defaults to a space)
+ * @property {number} payloadLength - the length of the address's hash, in
+ *   bytes: 20 (the default) or 32
+ */
+export interface FormatAddressOptions {
+  style?: AddressFormatStyle;
+  head?: number;
+  tail?: number;
+  groupSize?: number;
+  separator?: ' ' | '-';
+  payloadLength?: 20 | 32;
+}
+
+/*
+ * Throw if a formatting option is not a positive integer.
+ */
+function assertPositive(name: string, value: number): void {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new RangeError(`Invalid ${name} ${value}: must be a positive integer`);
+  }
+}
+
+/**
+ * Format a c32 address for display.  The address is validated, and shown in
+ * canonical (uppercase) form.
+ * @param {string} c32addr - the c32 address
+ * @param {FormatAddressOptions} options - the style, and its settings
+ * @returns {string} the formatted address
+ */
+export function formatAddress(c32addr: string, options: FormatAddressOptions = {}): string {
+  const { payloadLength } = options;
+  const [version, hash] = c32addressDecode(c32addr, { payloadLength });
+  const address: string = c32address(version, hash, { payloadLength });
+  const style = options.style ?? 'truncate';
+
+  switch (style) {
+    case 'truncate': {
+      const head = options.head ?? 6;
+      const tail = options.tail ?? 5;
+      assertPositive('head', head);
+      assertPositive('tail', tail);
+      if (head + tail >= address.length) {
+        return address;
+      }
+      return `${address.slice(0, head)}…${address.slice(-tail)}`;
+    }
+    case 'grouped': {
+      const groupSize = options.groupSize ?? 4;
+      const separator = options.separator ?? ' ';
+      assertPositive('groupSize', groupSize);
+      if (separator !== ' ' && separator !== '-') {
+        throw new RangeError(`Invalid separator ${String(separator)}: must be ' ' or '-'`);
+      }
+      const groups = [];
+      for (let i = 0; i < address.length; i += groupSize) {
+        groups.push(address.slice(i, i + groupSize));
+      }
+      return groups.join(separator);
+    }
+    default:
+      throw new RangeError(`Unknown address format style ${String(style)}`);
+  }
+}
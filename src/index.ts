@@ -1,18 +1,235 @@
-import { c32encode, c32decode, c32normalize } from './encoding';
+import { c32encode, c32decode, c32normalize, c32encodeBytes, c32decodeBytes } from './encoding';
 
-import { c32checkEncode, c32checkDecode } from './checksum';
+import { c32encodeInt, c32decodeInt } from './integer';
 
-import { c32address, c32addressDecode, c32ToB58, b58ToC32, versions } from './address';
+import {
+  c32checkEncode,
+  c32checkDecode,
+  c32checkEncodeBytes,
+  c32checkDecodeBytes,
+} from './checksum';
+
+import {
+  c32address,
+  c32addressDecode,
+  c32addressBytes,
+  c32addressDecodeBytes,
+  c32ToB58,
+  b58ToC32,
+  validateStacksAddress,
+  versions,
+} from './address';
+
+import { formatAddress } from './format';
+
+import { parseStacksUri, buildStacksUri, bitcoinUriToStacksUri } from './uri';
+
+import { accountKey, sameAccount } from './account';
+
+import { poxAddressToBtcAddress, btcAddressToPoxAddress, POX_ADDRESS_VERSIONS } from './pox';
+
+import {
+  registerNetwork,
+  unregisterNetwork,
+  getNetwork,
+  getNetworkByVersion,
+  getNetworkByBitcoinVersion,
+  getNetworkByBech32Hrp,
+  listNetworks,
+} from './networks';
+
+import * as base58check from './base58check';
+
+import * as bech32 from './bech32';
+
+import { parseSegwitAddress, segwitToC32, c32ToSegwit } from './segwit';
+
+import { hash160, publicKeyToAddress } from './keys';
+
+import { encodeWIF, decodeWIF, wifToAddresses } from './wif';
+
+import { multisigAddress, multisigScript, decodeMultisigScript } from './multisig';
+
+import { convertMany, createConvertStream } from './batch';
+
+import { suggestCorrections } from './corrections';
+
+import {
+  isC32CheckString,
+  isC32Address,
+  isContractPrincipal,
+  isB58Address,
+  isHash160Hex,
+} from './types';
+
+import {
+  contractPrincipal,
+  parseContractPrincipal,
+  parsePrincipal,
+  isValidContractName,
+  serializePrincipal,
+  serializePrincipalBytes,
+  deserializePrincipal,
+  toNetwork,
+  CONTRACT_NAME_MAX_LENGTH,
+} from './principal';
+
+import {
+  C32Error,
+  C32InvalidCharacterError,
+  C32InvalidHexError,
+  C32LengthError,
+  C32VersionError,
+  C32ChecksumError,
+  C32NonCanonicalError,
+  C32PrincipalError,
+  C32ContractNameError,
+  C32NetworkError,
+  C32UnsupportedAddressError,
+  C32PublicKeyError,
+  C32PrivateKeyError,
+  C32MultisigError,
+  C32UriError,
+  C32IntegerError,
+  Base58InvalidCharacterError,
+  Base58ChecksumError,
+  Bech32InvalidCharacterError,
+  Bech32ChecksumError,
+  Bech32FormatError,
+} from './errors';
 
 export {
   c32encode,
   c32decode,
+  c32encodeBytes,
+  c32decodeBytes,
+  c32encodeInt,
+  c32decodeInt,
   c32checkEncode,
   c32checkDecode,
+  c32checkEncodeBytes,
+  c32checkDecodeBytes,
   c32address,
   c32addressDecode,
+  c32addressBytes,
+  c32addressDecodeBytes,
   c32normalize,
   versions,
   c32ToB58,
   b58ToC32,
+  validateStacksAddress,
+  formatAddress,
+  parseStacksUri,
+  buildStacksUri,
+  bitcoinUriToStacksUri,
+  accountKey,
+  sameAccount,
+  poxAddressToBtcAddress,
+  btcAddressToPoxAddress,
+  POX_ADDRESS_VERSIONS,
+  registerNetwork,
+  unregisterNetwork,
+  getNetwork,
+  getNetworkByVersion,
+  getNetworkByBitcoinVersion,
+  getNetworkByBech32Hrp,
+  listNetworks,
+  base58check,
+  bech32,
+  parseSegwitAddress,
+  segwitToC32,
+  c32ToSegwit,
+  hash160,
+  publicKeyToAddress,
+  encodeWIF,
+  decodeWIF,
+  wifToAddresses,
+  multisigAddress,
+  multisigScript,
+  decodeMultisigScript,
+  convertMany,
+  createConvertStream,
+  suggestCorrections,
+  isC32CheckString,
+  isC32Address,
+  isContractPrincipal,
+  isB58Address,
+  isHash160Hex,
+  contractPrincipal,
+  parseContractPrincipal,
+  parsePrincipal,
+  isValidContractName,
+  serializePrincipal,
+  serializePrincipalBytes,
+  deserializePrincipal,
+  toNetwork,
+  CONTRACT_NAME_MAX_LENGTH,
+  C32Error,
+  C32InvalidCharacterError,
+  C32InvalidHexError,
+  C32LengthError,
+  C32VersionError,
+  C32ChecksumError,
+  C32NonCanonicalError,
+  C32PrincipalError,
+  C32ContractNameError,
+  C32NetworkError,
+  C32UnsupportedAddressError,
+  C32PublicKeyError,
+  C32PrivateKeyError,
+  C32MultisigError,
+  C32UriError,
+  C32IntegerError,
+  Base58InvalidCharacterError,
+  Base58ChecksumError,
+  Bech32InvalidCharacterError,
+  Bech32ChecksumError,
+  Bech32FormatError,
 };
+
+export type { C32DecodeOptions, C32CrockfordOptions } from './encoding';
+export type { C32ErrorCode } from './errors';
+export type { C32CheckBytes } from './checksum';
+export type { C32IntEncodeOptions, C32IntDecodeOptions } from './integer';
+export type {
+  C32AddressBytes,
+  C32AddressOptions,
+  C32AddressDecodeOptions,
+  AddressConversionOptions,
+  StacksAddressValidationOptions,
+  StacksAddressValidation,
+} from './address';
+export type { AddressFormatStyle, FormatAddressOptions } from './format';
+export type { StacksUri, BitcoinUriConversionOptions } from './uri';
+export type { SameAccountOptions } from './account';
+export type { PoxAddressType, PoxAddress } from './pox';
+export type {
+  StacksNetworkName,
+  StacksAddressType,
+  NetworkDefinition,
+  NetworkMatch,
+} from './networks';
+export type {
+  Base58CheckEncodeOptions,
+  Base58CheckDecodeOptions,
+  Base58CheckDecoded,
+} from './base58check';
+export type { Bech32Encoding, Bech32Decoded, SegwitAddress } from './bech32';
+export type { SegwitAddressType, SegwitAddressInfo, SegwitConversionOptions } from './segwit';
+export type { PublicKeyToAddressOptions } from './keys';
+export type { WIFNetwork, WIFEncodeOptions, DecodedWIF, WIFAddresses } from './wif';
+export type { MultisigHashMode, MultisigAddressOptions, MultisigScript } from './multisig';
+export type { BatchOperation, BatchValue, BatchResult, ConvertStreamOptions } from './batch';
+export type {
+  C32CheckString,
+  C32Address,
+  ContractPrincipal,
+  B58Address,
+  Hash160Hex,
+} from './types';
+export type { AddressCorrection, CorrectionEdit } from './corrections';
+export type {
+  ParsedStandardPrincipal,
+  ParsedContractPrincipal,
+  ParsedPrincipal,
+} from './principal';
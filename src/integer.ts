@@ -0,0 +1,119 @@
+import { c32checkDecode, c32checkEncode } from './checksum';
+import { assertC32Canonical, c32, c32normalize, C32DecodeOptions } from './encoding';
+import {
+  C32IntegerError,
+  C32InvalidCharacterError,
+  C32LengthError,
+  C32VersionError,
+} from './errors';
+import { findInvalidCharacter } from './utils';
+
+/**
+ * Options for c32encodeInt().
+ * @property {number} minLength - the minimum length of the c32 string; shorter
+ *   encodings are padded with leading zeros
+ * @property {boolean} checksum - encode as a c32check string, so typos can be detected
+ * @property {number} version - the c32check version (between 0 and 31) to
+ *   use with `checksum` (defaults to 0)
+ */
+export interface C32IntEncodeOptions {
+  minLength?: number;
+  checksum?: boolean;
+  version?: number;
+}
+
+/**
+ * Options for c32decodeInt().
+ * @property {boolean} checksum - decode a c32check string, as made by
+ *   c32encodeInt() with `checksum`
+ * @property {number} version - the c32check version the string must have,
+ *   with `checksum` (defaults to any)
+ */
+export interface C32IntDecodeOptions extends C32DecodeOptions {
+  checksum?: boolean;
+  version?: number;
+}
+
+/*
+ * Convert a non-negative integer to a bigint, or throw.
+ */
+function toBigInt(value: bigint | number): bigint {
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new C32IntegerError(
+      value,
+      `Invalid integer ${value}: must be a safe integer, or a bigint`
+    );
+  }
+  if (value < 0) {
+    throw new C32IntegerError(value, `Invalid integer ${value}: must not be negative`);
+  }
+  return BigInt(value);
+}
+
+/**
+ * Encode a non-negative integer as a c32 string, most significant digit first.
+ * @param {bigint | number} value - the integer; numbers must be safe integers
+ * @param {C32IntEncodeOptions} options - the minimum length, and whether to
+ *   add a c32check version and checksum
+ * @returns {string} the c32 (or c32check) string
+ */
+export function c32encodeInt(value: bigint | number, options: C32IntEncodeOptions = {}): string {
+  const integer = toBigInt(value);
+  const minLength = options.minLength ?? 0;
+
+  if (options.checksum) {
+    let hex = integer.toString(16);
+    if (hex.length % 2 !== 0) {
+      hex = `0${hex}`;
+    }
+    // each leading zero byte adds one '0' to the encoding, though the
+    // checksum may change its length too
+    let encoded = c32checkEncode(options.version ?? 0, hex);
+    while (encoded.length < minLength) {
+      hex = `00${hex}`;
+      encoded = c32checkEncode(options.version ?? 0, hex);
+    }
+    return encoded;
+  }
+
+  // bigint's base-32 digits, 0-9 and a-v, have the same values as the c32 alphabet's
+  const digits = Array.from(integer.toString(32), digit => c32[parseInt(digit, 32)]).join('');
+  return digits.padStart(minLength, '0');
+}
+
+/**
+ * Decode a c32 string made by c32encodeInt() back into an integer.  Input is
+ * normalized as by c32decode(): lowercase letters are accepted, O is read as
+ * 0, and I and L as 1.
+ * @param {string} c32input - the c32 (or c32check) string
+ * @param {C32IntDecodeOptions} options - whether the string has a c32check
+ *   version and checksum, and decoding options
+ * @returns {bigint} the integer
+ */
+export function c32decodeInt(c32input: string, options: C32IntDecodeOptions = {}): bigint {
+  if (options.checksum) {
+    const [version, hex] = c32checkDecode(c32input, options);
+    if (options.version !== undefined && version !== options.version) {
+      throw new C32VersionError(version, `Invalid version ${version}: expected ${options.version}`);
+    }
+    return hex.length > 0 ? BigInt(`0x${hex}`) : BigInt(0);
+  }
+
+  if (options.strict) {
+    assertC32Canonical(c32input);
+  }
+  const normalized = c32normalize(c32input);
+  const invalidIndex = findInvalidCharacter(normalized, c32);
+  if (invalidIndex >= 0) {
+    throw new C32InvalidCharacterError(c32input, invalidIndex);
+  }
+  if (normalized.length === 0) {
+    throw new C32LengthError(c32input, 'Invalid c32 integer: empty string');
+  }
+
+  let integer = BigInt(0);
+  for (const char of normalized) {
+    integer = integer * BigInt(32) + BigInt(c32.indexOf(char));
+  }
+  return integer;
+}
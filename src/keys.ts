@@ -0,0 +1,85 @@
+import { ripemd160 } from '@noble/hashes/ripemd160';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { Point } from '@noble/secp256k1';
+import { c32address } from './address';
+import { C32LengthError, C32PublicKeyError } from './errors';
+import { getNetwork, StacksNetworkName } from './networks';
+import { toHex } from './utils';
+
+/**
+ * Options for publicKeyToAddress().
+ * @property {StacksNetworkName} network - the network whose p2pkh version to
+ *   use (defaults to mainnet)
+ * @property {boolean} compressed - hash the compressed (true) or uncompressed
+ *   (false) form of the key, converting it if necessary.  If not given, the
+ *   key is hashed in the form it was passed in.
+ */
+export interface PublicKeyToAddressOptions {
+  network?: StacksNetworkName;
+  compressed?: boolean;
+}
+
+/**
+ * Compute the hash160 (RIPEMD-160 of SHA-256) of some data.
+ * @param {string | Uint8Array} input - the data, as hex or bytes
+ * @returns {string} the hash160, as hex
+ */
+export function hash160(input: string | Uint8Array): string {
+  const hex = toHex(input);
+  if (hex.length % 2 !== 0) {
+    throw new C32LengthError(input, 'Invalid argument: hex string has an odd length');
+  }
+  return bytesToHex(ripemd160(sha256(hexToBytes(hex))));
+}
+
+/**
+ * Check that a hex string is a secp256k1 public key, in compressed
+ * (33-byte, 02/03 prefix) or uncompressed (65-byte, 04 prefix) form.
+ * @param {string | Uint8Array} input - the key as passed in, for error reporting
+ * @param {string} hex - the key, as lower-case hex
+ * @returns {Point} the decoded curve point
+ */
+export function decodePublicKey(input: string | Uint8Array, hex: string): Point {
+  if (hex.length !== 66 && hex.length !== 130) {
+    throw new C32LengthError(
+      input,
+      'Invalid public key: must be 33 bytes (compressed) or 65 bytes (uncompressed)'
+    );
+  }
+  const prefix = hex.slice(0, 2);
+  const expected = hex.length === 66 ? ['02', '03'] : ['04'];
+  if (!expected.includes(prefix)) {
+    throw new C32PublicKeyError(
+      input,
+      `Invalid public key: a ${hex.length / 2}-byte key must start with ${expected.join(' or ')}`
+    );
+  }
+  try {
+    return Point.fromHex(hex);
+  } catch (e) {
+    throw new C32PublicKeyError(input, 'Invalid public key: not a point on the secp256k1 curve');
+  }
+}
+
+/**
+ * Derive the p2pkh c32 address of a secp256k1 public key.
+ * @param {string | Uint8Array} publicKey - the public key, as hex or bytes, in
+ *   compressed (33-byte) or uncompressed (65-byte) form
+ * @param {PublicKeyToAddressOptions} options - the network, and which form of
+ *   the key to hash
+ * @returns {string} the c32 address
+ */
+export function publicKeyToAddress(
+  publicKey: string | Uint8Array,
+  options: PublicKeyToAddressOptions = {}
+): string {
+  const hex = toHex(publicKey, 'Invalid public key: not a hex string').toLowerCase();
+  const point = decodePublicKey(publicKey, hex);
+  const isCompressed = hex.length === 66;
+  const compressed = options.compressed === undefined ? isCompressed : options.compressed;
+  const keyBytes = compressed === isCompressed ? hexToBytes(hex) : point.toRawBytes(compressed);
+
+  const version = getNetwork(options.network ?? 'mainnet').versions.p2pkh;
+  return c32address(version, hash160(keyBytes));
+}
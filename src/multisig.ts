@@ -0,0 +1,197 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { c32address } from './address';
+import { C32MultisigError } from './errors';
+import { decodePublicKey, hash160 } from './keys';
+import { getNetwork, StacksNetworkName } from './networks';
+import { toHex } from './utils';
+
+/**
+ * The Stacks hash modes of multisig (and wrapped single-signature) accounts.
+ * * `p2sh` - a bare multisig redeem script
+ * * `p2wpkh-p2sh` - a single compressed key, as P2WPKH nested in P2SH
+ * * `p2wsh-p2sh` - a multisig witness script, as P2WSH nested in P2SH
+ * * `p2sh-non-sequential` and `p2wsh-p2sh-non-sequential` - as above, but
+ *   signatures may be given in any order.  The address is derived the same way.
+ */
+export type MultisigHashMode =
+  | 'p2sh'
+  | 'p2wpkh-p2sh'
+  | 'p2wsh-p2sh'
+  | 'p2sh-non-sequential'
+  | 'p2wsh-p2sh-non-sequential';
+
+/**
+ * Options for multisigAddress().
+ * @property {MultisigHashMode} hashMode - how the script is hashed (defaults to p2sh)
+ * @property {StacksNetworkName} network - the network whose p2sh version to
+ *   use (defaults to mainnet)
+ */
+export interface MultisigAddressOptions {
+  hashMode?: MultisigHashMode;
+  network?: StacksNetworkName;
+}
+
+/**
+ * A decoded multisig redeem (or witness) script.
+ * @property {number} threshold - the number of signatures required
+ * @property {string[]} publicKeys - the signers' public keys, as hex, in script order
+ */
+export interface MultisigScript {
+  threshold: number;
+  publicKeys: string[];
+}
+
+// the most keys a standard multisig script may hold
+const MULTISIG_MAX_KEYS = 15;
+
+const OP_1 = 0x51;
+const OP_CHECKMULTISIG = 0xae;
+
+/*
+ * The script opcode pushing a small number (1 to 16) onto the stack.
+ */
+function opNumber(n: number): string {
+  return (OP_1 + n - 1).toString(16);
+}
+
+/*
+ * Check a threshold against a number of keys.
+ */
+function checkThreshold(input: unknown, threshold: number, keyCount: number) {
+  if (keyCount < 1 || keyCount > MULTISIG_MAX_KEYS) {
+    throw new C32MultisigError(
+      input,
+      `Invalid multisig: must have between 1 and ${MULTISIG_MAX_KEYS} public keys`
+    );
+  }
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > keyCount) {
+    throw new C32MultisigError(
+      input,
+      `Invalid multisig threshold: must be between 1 and ${keyCount}`
+    );
+  }
+}
+
+/**
+ * Build the redeem (or witness) script of an m-of-n multisig account:
+ * `OP_m <key 1> ... <key n> OP_n OP_CHECKMULTISIG`.
+ * @param {(string | Uint8Array)[]} publicKeys - the signers' public keys, as hex or bytes
+ * @param {number} threshold - the number of signatures required
+ * @returns {string} the script, as hex
+ */
+export function multisigScript(publicKeys: (string | Uint8Array)[], threshold: number): string {
+  checkThreshold(publicKeys, threshold, publicKeys.length);
+  const keys = publicKeys.map(publicKey => {
+    const hex = toHex(publicKey, 'Invalid public key: not a hex string').toLowerCase();
+    decodePublicKey(publicKey, hex);
+    return hex;
+  });
+
+  const pushes = keys.map(key => `${(key.length / 2).toString(16)}${key}`).join('');
+  return `${opNumber(threshold)}${pushes}${opNumber(keys.length)}${OP_CHECKMULTISIG.toString(16)}`;
+}
+
+/**
+ * Decode an m-of-n multisig redeem (or witness) script, e.g. to check a
+ * signer set against an address with multisigAddress().
+ * @param {string | Uint8Array} script - the script, as hex or bytes
+ * @returns {MultisigScript} the threshold and public keys
+ */
+export function decodeMultisigScript(script: string | Uint8Array): MultisigScript {
+  const hex = toHex(script, 'Invalid script: not a hex string');
+  if (hex.length % 2 !== 0) {
+    throw new C32MultisigError(script, 'Invalid multisig script: odd-length hex string');
+  }
+  const bytes = hexToBytes(hex);
+
+  const threshold = bytes[0] - OP_1 + 1;
+  const publicKeys = [];
+  let offset = 1;
+  while (offset < bytes.length && (bytes[offset] === 33 || bytes[offset] === 65)) {
+    const end = offset + 1 + bytes[offset];
+    if (end > bytes.length) {
+      throw new C32MultisigError(script, 'Invalid multisig script: truncated public key');
+    }
+    const key = bytesToHex(bytes.slice(offset + 1, end));
+    decodePublicKey(script, key);
+    publicKeys.push(key);
+    offset = end;
+  }
+
+  if (
+    bytes.length < 3 ||
+    offset !== bytes.length - 2 ||
+    bytes[offset] !== OP_1 + publicKeys.length - 1 ||
+    bytes[offset + 1] !== OP_CHECKMULTISIG
+  ) {
+    throw new C32MultisigError(
+      script,
+      'Invalid multisig script: expected OP_m <public keys> OP_n OP_CHECKMULTISIG'
+    );
+  }
+  checkThreshold(script, threshold, publicKeys.length);
+
+  return { threshold, publicKeys };
+}
+
+/**
+ * Derive the c32 address of a multisig (or wrapped single-signature) account.
+ * Public keys are used in the order given.
+ * @param {(string | Uint8Array)[]} publicKeys - the signers' public keys, as hex or bytes.
+ *   The witness hash modes require compressed keys.
+ * @param {number} threshold - the number of signatures required.  Must be 1
+ *   (with a single key) for `p2wpkh-p2sh`.
+ * @param {MultisigAddressOptions} options - the hash mode and network
+ * @returns {string} the c32 address, with the network's p2sh version
+ */
+export function multisigAddress(
+  publicKeys: (string | Uint8Array)[],
+  threshold: number,
+  options: MultisigAddressOptions = {}
+): string {
+  const hashMode = options.hashMode ?? 'p2sh';
+  const version = getNetwork(options.network ?? 'mainnet').versions.p2sh;
+
+  const isWitness = hashMode !== 'p2sh' && hashMode !== 'p2sh-non-sequential';
+  if (isWitness) {
+    for (const publicKey of publicKeys) {
+      if (toHex(publicKey, 'Invalid public key: not a hex string').length !== 66) {
+        throw new C32MultisigError(
+          publicKey,
+          `Invalid public key: ${hashMode} requires compressed public keys`
+        );
+      }
+    }
+  }
+
+  let hash: string;
+  switch (hashMode) {
+    case 'p2sh':
+    case 'p2sh-non-sequential':
+      hash = hash160(multisigScript(publicKeys, threshold));
+      break;
+    case 'p2wpkh-p2sh':
+      if (publicKeys.length !== 1 || threshold !== 1) {
+        throw new C32MultisigError(
+          publicKeys,
+          'Invalid multisig: p2wpkh-p2sh requires exactly one public key and a threshold of 1'
+        );
+      }
+      decodePublicKey(publicKeys[0], toHex(publicKeys[0]).toLowerCase());
+      // redeem script: OP_0 <20-byte hash160 of the key>
+      hash = hash160(`0014${hash160(publicKeys[0])}`);
+      break;
+    case 'p2wsh-p2sh':
+    case 'p2wsh-p2sh-non-sequential': {
+      // redeem script: OP_0 <32-byte sha256 of the witness script>
+      const witnessScript = hexToBytes(multisigScript(publicKeys, threshold));
+      hash = hash160(`0020${bytesToHex(sha256(witnessScript))}`);
+      break;
+    }
+    default:
+      throw new C32MultisigError(hashMode, `Unknown hash mode ${String(hashMode)}`);
+  }
+
+  return c32address(version, hash);
+}
@@ -0,0 +1,226 @@
+import { C32NetworkError } from './errors';
+
+export const versions = {
+  mainnet: {
+    p2pkh: 22, // 'P'
+    p2sh: 20, // 'M'
+  },
+  testnet: {
+    p2pkh: 26, // 'T'
+    p2sh: 21, // 'N'
+  },
+};
+
+/**
+ * The name of a registered network.  'mainnet', 'testnet' and 'regtest' are
+ * always registered; others can be added with registerNetwork().
+ */
+export type StacksNetworkName = 'mainnet' | 'testnet' | 'regtest' | (string & {});
+
+export type StacksAddressType = keyof typeof versions.mainnet;
+
+/**
+ * A network's address version numbers.
+ * @property {string} name - the network name
+ * @property {object} versions - the c32 address versions, per address type
+ * @property {object} bitcoinVersions - the base58check address versions of
+ *   the Bitcoin network this network settles on, per address type
+ * @property {string} bech32Hrp - the human-readable part of that Bitcoin
+ *   network's SegWit addresses, if it has any
+ */
+export interface NetworkDefinition {
+  name: StacksNetworkName;
+  versions: Record<StacksAddressType, number>;
+  bitcoinVersions: Record<StacksAddressType, number>;
+  bech32Hrp?: string;
+}
+
+/**
+ * The result of looking up a network by address version.
+ */
+export interface NetworkMatch {
+  network: NetworkDefinition;
+  type: StacksAddressType;
+}
+
+const ADDRESS_TYPES: StacksAddressType[] = ['p2pkh', 'p2sh'];
+
+// registered networks, in registration order; earlier networks take
+// precedence when several share a version number
+const networks: NetworkDefinition[] = [
+  {
+    name: 'mainnet',
+    versions: versions.mainnet,
+    bitcoinVersions: { p2pkh: 0, p2sh: 5 },
+    bech32Hrp: 'bc',
+  },
+  {
+    name: 'testnet',
+    versions: versions.testnet,
+    bitcoinVersions: { p2pkh: 111, p2sh: 196 },
+    bech32Hrp: 'tb',
+  },
+  {
+    // a local Bitcoin regtest node; shares testnet's version numbers
+    name: 'regtest',
+    versions: versions.testnet,
+    bitcoinVersions: { p2pkh: 111, p2sh: 196 },
+    bech32Hrp: 'bcrt',
+  },
+];
+const BUILTIN_NETWORKS = networks.map(network => network.name);
+
+// address conversion : bitcoin to stacks
+export const ADDR_BITCOIN_TO_STACKS: Record<number, number> = {};
+
+// address conversion : stacks to bitcoin
+export const ADDR_STACKS_TO_BITCOIN: Record<number, number> = {};
+
+/*
+ * Rebuild the version conversion tables from the registered networks.
+ */
+function rebuildConversionTables(): void {
+  for (const table of [ADDR_BITCOIN_TO_STACKS, ADDR_STACKS_TO_BITCOIN]) {
+    for (const key of Object.keys(table)) {
+      delete table[Number(key)];
+    }
+  }
+  for (const network of networks) {
+    for (const type of ADDRESS_TYPES) {
+      const stacksVersion = network.versions[type];
+      const bitcoinVersion = network.bitcoinVersions[type];
+      if (ADDR_BITCOIN_TO_STACKS[bitcoinVersion] === undefined) {
+        ADDR_BITCOIN_TO_STACKS[bitcoinVersion] = stacksVersion;
+      }
+      if (ADDR_STACKS_TO_BITCOIN[stacksVersion] === undefined) {
+        ADDR_STACKS_TO_BITCOIN[stacksVersion] = bitcoinVersion;
+      }
+    }
+  }
+}
+rebuildConversionTables();
+
+/**
+ * Register an additional network, e.g. a devnet, regtest or subnet, so that
+ * its version numbers are recognized by address conversion and validation.
+ * Networks registered earlier take precedence when several share a version.
+ * @param {NetworkDefinition} network - the network to register
+ */
+export function registerNetwork(network: NetworkDefinition): void {
+  if (networks.some(registered => registered.name === network.name)) {
+    throw new C32NetworkError(network.name, `Network ${network.name} is already registered`);
+  }
+  for (const type of ADDRESS_TYPES) {
+    const stacksVersion = network.versions[type];
+    const bitcoinVersion = network.bitcoinVersions[type];
+    if (!Number.isInteger(stacksVersion) || stacksVersion < 0 || stacksVersion >= 32) {
+      throw new C32NetworkError(
+        network.name,
+        `Invalid ${type} version for network ${network.name} (must be between 0 and 31)`
+      );
+    }
+    if (!Number.isInteger(bitcoinVersion) || bitcoinVersion < 0 || bitcoinVersion >= 256) {
+      throw new C32NetworkError(
+        network.name,
+        `Invalid ${type} bitcoin version for network ${network.name} (must be between 0 and 255)`
+      );
+    }
+  }
+
+  if (network.bech32Hrp !== undefined && !/^[a-z0-9]+$/.test(network.bech32Hrp)) {
+    throw new C32NetworkError(
+      network.name,
+      `Invalid bech32 prefix for network ${network.name} (must be lower case alphanumeric)`
+    );
+  }
+
+  networks.push({
+    name: network.name,
+    versions: { ...network.versions },
+    bitcoinVersions: { ...network.bitcoinVersions },
+    bech32Hrp: network.bech32Hrp,
+  });
+  rebuildConversionTables();
+}
+
+/**
+ * Remove a network added with registerNetwork().  The built-in networks
+ * cannot be removed.
+ * @param {StacksNetworkName} name - the network name
+ */
+export function unregisterNetwork(name: StacksNetworkName): void {
+  if (BUILTIN_NETWORKS.includes(name)) {
+    throw new C32NetworkError(name, `Network ${name} is built in and cannot be unregistered`);
+  }
+  const index = networks.findIndex(network => network.name === name);
+  if (index < 0) {
+    throw new C32NetworkError(name, `Unknown network ${name}`);
+  }
+  networks.splice(index, 1);
+  rebuildConversionTables();
+}
+
+/**
+ * Look up a registered network by name.
+ * @param {StacksNetworkName} name - the network name
+ * @returns {NetworkDefinition} the network.  Throws if it is not registered.
+ */
+export function getNetwork(name: StacksNetworkName): NetworkDefinition {
+  const network = networks.find(registered => registered.name === name);
+  if (!network) {
+    throw new C32NetworkError(name, `Unknown network ${name}`);
+  }
+  return network;
+}
+
+/**
+ * List the registered networks, in registration order.
+ * @returns {NetworkDefinition[]} the networks
+ */
+export function listNetworks(): NetworkDefinition[] {
+  return networks.slice();
+}
+
+/**
+ * Find the network and address type of a c32 address version.
+ * @param {number} version - the c32 address version
+ * @returns {NetworkMatch | undefined} the first registered network using
+ *   this version, or undefined if there is none
+ */
+export function getNetworkByVersion(version: number): NetworkMatch | undefined {
+  for (const network of networks) {
+    for (const type of ADDRESS_TYPES) {
+      if (network.versions[type] === version) {
+        return { network, type };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the network and address type of a base58check (Bitcoin) address version.
+ * @param {number} bitcoinVersion - the base58check address version
+ * @returns {NetworkMatch | undefined} the first registered network using
+ *   this version, or undefined if there is none
+ */
+export function getNetworkByBitcoinVersion(bitcoinVersion: number): NetworkMatch | undefined {
+  for (const network of networks) {
+    for (const type of ADDRESS_TYPES) {
+      if (network.bitcoinVersions[type] === bitcoinVersion) {
+        return { network, type };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the network whose Bitcoin SegWit addresses use a human-readable part.
+ * @param {string} hrp - the human-readable part, e.g. 'bc'
+ * @returns {NetworkDefinition | undefined} the first registered network using
+ *   this prefix, or undefined if there is none
+ */
+export function getNetworkByBech32Hrp(hrp: string): NetworkDefinition | undefined {
+  return networks.find(network => network.bech32Hrp === hrp.toLowerCase());
+}
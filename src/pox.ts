@@ -0,0 +1,132 @@
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import * as base58check from './base58check';
+import { encodeSegwitAddress } from './bech32';
+import {
+  C32LengthError,
+  C32NetworkError,
+  C32UnsupportedAddressError,
+  C32VersionError,
+} from './errors';
+import { getNetwork, getNetworkByBitcoinVersion, StacksNetworkName } from './networks';
+import { getSegwitNetwork, parseSegwitAddress } from './segwit';
+import { toHex } from './utils';
+
+/**
+ * The `version` byte of a PoX reward address, per Bitcoin output type.
+ */
+export const POX_ADDRESS_VERSIONS = {
+  p2pkh: 0,
+  p2sh: 1,
+  'p2wpkh-p2sh': 2,
+  'p2wsh-p2sh': 3,
+  p2wpkh: 4,
+  p2wsh: 5,
+  p2tr: 6,
+};
+
+/**
+ * The Bitcoin output type of a PoX reward address.
+ */
+export type PoxAddressType = keyof typeof POX_ADDRESS_VERSIONS;
+
+/**
+ * A PoX reward address, as held by the stacking contract's
+ * `{ version: (buff 1), hashbytes: (buff 32) }` tuple.
+ * @property {number} version - the version byte; see POX_ADDRESS_VERSIONS
+ * @property {string} hashbytes - the hash (or, for p2tr, the output key), as
+ *   hex: 20 bytes for versions 0 to 4, and 32 bytes for versions 5 and 6
+ * @property {StacksNetworkName} network - the registered network whose
+ *   Bitcoin address the reward address was read from
+ */
+export interface PoxAddress {
+  version: number;
+  hashbytes: string;
+  network: StacksNetworkName;
+}
+
+// the PoX versions whose outputs are paid to as SegWit addresses, and their witness versions
+const SEGWIT_WITNESS_VERSIONS: Record<number, number> = {
+  [POX_ADDRESS_VERSIONS.p2wpkh]: 0,
+  [POX_ADDRESS_VERSIONS.p2wsh]: 0,
+  [POX_ADDRESS_VERSIONS.p2tr]: 1,
+};
+
+/**
+ * Convert a PoX reward address to the Bitcoin address it pays to.  The
+ * P2SH-wrapped SegWit versions become plain P2SH addresses, since the hash
+ * is of the redeem script either way.
+ * @param {number} version - the PoX address version, between 0 and 6
+ * @param {string | Uint8Array} hashbytes - the hash, as hex or bytes
+ * @param {StacksNetworkName} network - the network whose Bitcoin address
+ *   versions and bech32 prefix to use
+ * @returns {string} the base58check or SegWit address
+ */
+export function poxAddressToBtcAddress(
+  version: number,
+  hashbytes: string | Uint8Array,
+  network: StacksNetworkName
+): string {
+  if (!Object.values(POX_ADDRESS_VERSIONS).includes(version)) {
+    throw new C32VersionError(version, `Invalid PoX address version ${version}: must be 0 to 6`);
+  }
+  const { name, bitcoinVersions, bech32Hrp } = getNetwork(network);
+  const hex = toHex(hashbytes, 'Invalid PoX address hashbytes: not a hex string');
+
+  const hashLength =
+    version === POX_ADDRESS_VERSIONS.p2wsh || version === POX_ADDRESS_VERSIONS.p2tr ? 32 : 20;
+  if (hex.length !== hashLength * 2) {
+    throw new C32LengthError(
+      hashbytes,
+      `Invalid PoX address hashbytes: version ${version} requires ${hashLength} bytes`
+    );
+  }
+
+  const witnessVersion = SEGWIT_WITNESS_VERSIONS[version];
+  if (witnessVersion !== undefined) {
+    if (bech32Hrp === undefined) {
+      throw new C32NetworkError(network, `Network ${name} has no bech32 prefix`);
+    }
+    return encodeSegwitAddress(bech32Hrp, witnessVersion, hexToBytes(hex));
+  }
+  const bitcoinVersion =
+    version === POX_ADDRESS_VERSIONS.p2pkh ? bitcoinVersions.p2pkh : bitcoinVersions.p2sh;
+  return base58check.encode(hex, new Uint8Array([bitcoinVersion]));
+}
+
+/**
+ * Convert a Bitcoin address to a PoX reward address.  A P2SH address has
+ * PoX version 1 (p2sh), since it does not say whether it wraps a SegWit output.
+ * Networks that share Bitcoin versions, like testnet and regtest, are told
+ * apart only by their bech32 prefix, as in getNetworkByBitcoinVersion().
+ * @param {string} address - a base58check P2PKH or P2SH address, or a
+ *   P2WPKH, P2WSH or P2TR address
+ * @returns {PoxAddress} the version, hashbytes and network
+ */
+export function btcAddressToPoxAddress(address: string): PoxAddress {
+  const segwitNetwork = getSegwitNetwork(address);
+
+  if (segwitNetwork !== undefined) {
+    const { type, program } = parseSegwitAddress(address);
+    if (type === 'witness_unknown') {
+      throw new C32UnsupportedAddressError(
+        address,
+        'Cannot use an unknown witness version as a PoX address'
+      );
+    }
+    return { version: POX_ADDRESS_VERSIONS[type], hashbytes: program, network: segwitNetwork.name };
+  }
+
+  const { prefix, data } = base58check.decode(address);
+  const match = getNetworkByBitcoinVersion(prefix[0]);
+  if (match === undefined) {
+    throw new C32NetworkError(address, `Unknown address version ${prefix[0]}`);
+  }
+  if (data.length !== 20) {
+    throw new C32LengthError(address, 'Invalid address: not a hash160');
+  }
+  return {
+    version: POX_ADDRESS_VERSIONS[match.type],
+    hashbytes: bytesToHex(data),
+    network: match.network.name,
+  };
+}
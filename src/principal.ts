@@ -0,0 +1,226 @@
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { c32address, c32addressDecode } from './address';
+import { C32DecodeOptions } from './encoding';
+import { C32ContractNameError, C32LengthError, C32NetworkError, C32PrincipalError } from './errors';
+import { getNetwork, getNetworkByVersion, StacksNetworkName } from './networks';
+import type { C32Address, ContractPrincipal } from './types';
+import { toHex } from './utils';
+
+/**
+ * The maximum length of a contract name in a principal, in characters.
+ * New contracts can only be deployed with names of up to 40 characters, but
+ * Stacks nodes accept names of up to 128 characters in principals, for
+ * backwards compatibility.
+ */
+export const CONTRACT_NAME_MAX_LENGTH = 128;
+
+// Clarity contract names: a letter, followed by letters, digits, '-' or '_'
+const CONTRACT_NAME_REGEX = /^[a-zA-Z][a-zA-Z0-9_-]*$/;
+
+// Clarity value type prefixes of serialized principals
+const CLARITY_TYPE_STANDARD_PRINCIPAL = 0x05;
+const CLARITY_TYPE_CONTRACT_PRINCIPAL = 0x06;
+
+/**
+ * A decoded standard principal, i.e. a plain c32 address.
+ */
+export interface ParsedStandardPrincipal {
+  type: 'standard';
+  address: string;
+  version: number;
+  hash160: string;
+}
+
+/**
+ * A decoded contract principal, i.e. `<address>.<contract name>`.
+ */
+export interface ParsedContractPrincipal {
+  type: 'contract';
+  address: string;
+  version: number;
+  hash160: string;
+  contractName: string;
+}
+
+export type ParsedPrincipal = ParsedStandardPrincipal | ParsedContractPrincipal;
+
+/**
+ * Check whether a string is a valid Clarity contract name.
+ * @param {string} contractName - the contract name
+ * @returns {boolean} true if the name is 1 to 128 characters long, starts with
+ *   a letter, and otherwise only contains letters, digits, '-' and '_'
+ */
+export function isValidContractName(contractName: string): boolean {
+  return contractName.length <= CONTRACT_NAME_MAX_LENGTH && CONTRACT_NAME_REGEX.test(contractName);
+}
+
+/*
+ * Throw if a string is not a valid Clarity contract name.
+ * @param {string} contractName - the contract name
+ */
+export function assertContractName(contractName: string): void {
+  if (contractName.length > CONTRACT_NAME_MAX_LENGTH) {
+    throw new C32ContractNameError(
+      contractName,
+      `Invalid contract name: longer than ${CONTRACT_NAME_MAX_LENGTH} characters`
+    );
+  }
+  if (!CONTRACT_NAME_REGEX.test(contractName)) {
+    throw new C32ContractNameError(contractName);
+  }
+}
+
+/**
+ * Make a contract principal from a version, hash160 and contract name.
+ * @param {number} version - the address version number
+ * @param {string | Uint8Array} hash160 - the hash160 of the deployer's address
+ * @param {string} contractName - the contract name
+ * @returns {ContractPrincipal} the contract principal, e.g. `SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7.my-contract`
+ */
+export function contractPrincipal(
+  version: number,
+  hash160: string | Uint8Array,
+  contractName: string
+): ContractPrincipal {
+  assertContractName(contractName);
+  return `${c32address(version, hash160)}.${contractName}` as ContractPrincipal;
+}
+
+/**
+ * Decode a contract principal into its address parts and contract name.
+ * @param {string} principal - the contract principal
+ * @param {C32DecodeOptions} options - decoding options for the address part
+ * @returns {ParsedContractPrincipal} the decoded principal
+ */
+export function parseContractPrincipal(
+  principal: string,
+  options: C32DecodeOptions = {}
+): ParsedContractPrincipal {
+  const dot = principal.indexOf('.');
+  if (dot < 0) {
+    throw new C32PrincipalError(principal, 'Invalid contract principal: missing contract name');
+  }
+  const address = principal.slice(0, dot);
+  const contractName = principal.slice(dot + 1);
+  assertContractName(contractName);
+
+  const [version, hash160] = c32addressDecode(address, options);
+  return { type: 'contract', address, version, hash160, contractName };
+}
+
+/**
+ * Decode a standard or contract principal.
+ * @param {string} principal - the principal
+ * @param {C32DecodeOptions} options - decoding options for the address part
+ * @returns {ParsedPrincipal} the decoded principal; check `type` to tell
+ *   standard and contract principals apart
+ */
+export function parsePrincipal(principal: string, options: C32DecodeOptions = {}): ParsedPrincipal {
+  if (principal.includes('.')) {
+    return parseContractPrincipal(principal, options);
+  }
+  const [version, hash160] = c32addressDecode(principal, options);
+  return { type: 'standard', address: principal, version, hash160 };
+}
+
+/**
+ * Serialize a standard or contract principal as a Clarity value:
+ * a type prefix (0x05 standard, 0x06 contract), the version byte, the
+ * 20-byte hash160, and, for contract principals, a length-prefixed contract name.
+ * @param {string} principal - the principal
+ * @returns {Uint8Array} the serialized principal
+ */
+export function serializePrincipalBytes(principal: string): Uint8Array {
+  const parsed = parsePrincipal(principal);
+  const hash160 = hexToBytes(parsed.hash160);
+  if (hash160.length !== 20) {
+    throw new C32LengthError(principal, 'Invalid principal: address hash must be 20 bytes');
+  }
+
+  const name = parsed.type === 'contract' ? parsed.contractName : '';
+  const result = new Uint8Array(22 + (name ? 1 + name.length : 0));
+  result[0] = name ? CLARITY_TYPE_CONTRACT_PRINCIPAL : CLARITY_TYPE_STANDARD_PRINCIPAL;
+  result[1] = parsed.version;
+  result.set(hash160, 2);
+  if (name) {
+    result[22] = name.length;
+    // contract names are ASCII, so each character is one byte
+    for (let i = 0; i < name.length; i++) {
+      result[23 + i] = name.charCodeAt(i);
+    }
+  }
+  return result;
+}
+
+/**
+ * Serialize a standard or contract principal as a Clarity value.
+ * @param {string} principal - the principal
+ * @returns {string} the serialized principal, as hex
+ */
+export function serializePrincipal(principal: string): string {
+  return bytesToHex(serializePrincipalBytes(principal));
+}
+
+/**
+ * Deserialize a principal from its Clarity value serialization.
+ * @param {string | Uint8Array} serialized - the serialized principal, as hex or bytes
+ * @returns {string} the standard or contract principal
+ */
+export function deserializePrincipal(serialized: string | Uint8Array): string {
+  const hex = toHex(serialized, 'Invalid serialized principal: not a hex string');
+  if (hex.length % 2 !== 0) {
+    throw new C32LengthError(serialized, 'Invalid serialized principal: odd-length hex string');
+  }
+  const bytes = hexToBytes(hex);
+
+  const type = bytes[0];
+  if (type !== CLARITY_TYPE_STANDARD_PRINCIPAL && type !== CLARITY_TYPE_CONTRACT_PRINCIPAL) {
+    throw new C32PrincipalError(
+      hex,
+      'Invalid serialized principal: type prefix must be 0x05 (standard) or 0x06 (contract)'
+    );
+  }
+
+  const expectedLength = type === CLARITY_TYPE_STANDARD_PRINCIPAL ? 22 : 23 + (bytes[22] ?? 0);
+  if (bytes.length !== expectedLength) {
+    throw new C32LengthError(
+      serialized,
+      `Invalid serialized principal: expected ${expectedLength} bytes, got ${bytes.length}`
+    );
+  }
+
+  const address = c32address(bytes[1], bytes.slice(2, 22));
+  if (type === CLARITY_TYPE_STANDARD_PRINCIPAL) {
+    return address;
+  }
+  const contractName = String.fromCharCode(...bytes.slice(23));
+  assertContractName(contractName);
+  return `${address}.${contractName}`;
+}
+
+/**
+ * Re-encode an address or contract principal for another network, e.g. to
+ * move fixtures from mainnet to testnet.  The hash mode is preserved (a
+ * p2pkh address stays p2pkh, and a p2sh address stays p2sh), as are the
+ * hash160 and any contract name.
+ * @param {string} principal - the address or contract principal
+ * @param {StacksNetworkName} network - the network to convert to, e.g. 'mainnet' or 'testnet'
+ * @returns {C32Address | ContractPrincipal} the address or contract principal
+ *   with the network's version for the same hash mode
+ */
+export function toNetwork(
+  principal: string,
+  network: StacksNetworkName
+): C32Address | ContractPrincipal {
+  const target = getNetwork(network);
+  const parsed = parsePrincipal(principal);
+  const match = getNetworkByVersion(parsed.version);
+  if (match === undefined) {
+    throw new C32NetworkError(principal, `Unknown address version ${parsed.version}`);
+  }
+
+  const version = target.versions[match.type];
+  return parsed.type === 'contract'
+    ? contractPrincipal(version, parsed.hash160, parsed.contractName)
+    : c32address(version, parsed.hash160);
+}
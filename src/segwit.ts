@@ -0,0 +1,147 @@
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { c32address, c32addressDecode } from './address';
+import { decodeSegwitAddress, encodeSegwitAddress } from './bech32';
+import { C32NetworkError, C32UnsupportedAddressError } from './errors';
+import {
+  getNetwork,
+  getNetworkByBech32Hrp,
+  getNetworkByVersion,
+  NetworkDefinition,
+  StacksNetworkName,
+} from './networks';
+
+/**
+ * The kind of output a SegWit address pays to.  Witness versions other than
+ * 0 and 1 (or version 1 programs other than 32 bytes) are reported as
+ * `witness_unknown`.
+ */
+export type SegwitAddressType = 'p2wpkh' | 'p2wsh' | 'p2tr' | 'witness_unknown';
+
+/**
+ * A decoded Bitcoin SegWit address.
+ * @property {StacksNetworkName} network - the registered network whose
+ *   bech32 prefix the address uses, if any
+ * @property {SegwitAddressType} type - the kind of output
+ * @property {number} witnessVersion - the witness version
+ * @property {string} program - the witness program, as hex
+ */
+export interface SegwitAddressInfo {
+  network?: StacksNetworkName;
+  type: SegwitAddressType;
+  witnessVersion: number;
+  program: string;
+}
+
+/**
+ * Options for c32ToSegwit().
+ * @property {StacksNetworkName} network - the network whose bech32 prefix
+ *   to use, if not inferred from the address version
+ */
+export interface SegwitConversionOptions {
+  network?: StacksNetworkName;
+}
+
+/**
+ * Find the registered network whose bech32 prefix an address starts with,
+ * without decoding the rest of it, e.g. to tell SegWit addresses apart from
+ * base58check ones.
+ * @param {string} address - the address
+ * @returns {NetworkDefinition | undefined} the network, or undefined if the
+ *   address does not start with a registered bech32 prefix
+ */
+export function getSegwitNetwork(address: string): NetworkDefinition | undefined {
+  // bech32 data never contains '1', so the last one ends the prefix
+  const separator = address.lastIndexOf('1');
+  return separator > 0 ? getNetworkByBech32Hrp(address.slice(0, separator)) : undefined;
+}
+
+/**
+ * Decode a Bitcoin SegWit (bech32 or bech32m) address.
+ * @param {string} address - the address, e.g. `bc1q…`, `bc1p…`, `tb1…` or `bcrt1…`
+ * @returns {SegwitAddressInfo} the network, output type, witness version and program
+ */
+export function parseSegwitAddress(address: string): SegwitAddressInfo {
+  const { hrp, witnessVersion, program } = decodeSegwitAddress(address);
+
+  let type: SegwitAddressType = 'witness_unknown';
+  if (witnessVersion === 0) {
+    type = program.length === 20 ? 'p2wpkh' : 'p2wsh';
+  } else if (witnessVersion === 1 && program.length === 32) {
+    type = 'p2tr';
+  }
+
+  return {
+    network: getNetworkByBech32Hrp(hrp)?.name,
+    type,
+    witnessVersion,
+    program: bytesToHex(program),
+  };
+}
+
+/**
+ * Convert a Bitcoin P2WPKH address to the c32 address with the same hash160.
+ * Other SegWit outputs commit to 32-byte hashes or scripts, which have no
+ * c32 address equivalent, and are rejected.
+ * @param {string} address - the P2WPKH address
+ * @param {number} version - the c32 version number, if not inferred from the address
+ * @returns {string} the c32 address with the given version number (or the
+ *   p2pkh version of the address's network, if not given)
+ */
+export function segwitToC32(address: string, version: number = -1): string {
+  const info = parseSegwitAddress(address);
+  if (info.type !== 'p2wpkh') {
+    throw new C32UnsupportedAddressError(
+      address,
+      `Cannot convert a ${info.type} address to a c32 address`
+    );
+  }
+
+  if (version < 0) {
+    if (info.network === undefined) {
+      throw new C32NetworkError(address, 'Unknown bech32 prefix');
+    }
+    version = getNetwork(info.network).versions.p2pkh;
+  }
+  return c32address(version, info.program);
+}
+
+/**
+ * Convert a c32 p2pkh address to the Bitcoin P2WPKH address with the same
+ * hash160.  p2sh addresses are rejected, since their SegWit equivalent
+ * commits to a different hash of the script.
+ * @param {string} c32addr - the c32 address
+ * @param {SegwitConversionOptions} options - the network whose bech32 prefix
+ *   to use, if not inferred from the address version
+ * @returns {string} the P2WPKH address
+ */
+export function c32ToSegwit(c32addr: string, options: SegwitConversionOptions = {}): string {
+  const [version, hash160] = c32addressDecode(c32addr);
+
+  let network: NetworkDefinition | undefined;
+  if (options.network !== undefined) {
+    network = getNetwork(options.network);
+    if (network.versions.p2sh === version) {
+      throw new C32UnsupportedAddressError(c32addr, 'Cannot convert a p2sh address to P2WPKH');
+    }
+    if (network.versions.p2pkh !== version) {
+      throw new C32NetworkError(
+        c32addr,
+        `Address version ${version} does not belong to network ${network.name}`
+      );
+    }
+  } else {
+    const match = getNetworkByVersion(version);
+    if (match === undefined) {
+      throw new C32NetworkError(c32addr, `Unknown address version ${version}`);
+    }
+    if (match.type !== 'p2pkh') {
+      throw new C32UnsupportedAddressError(c32addr, 'Cannot convert a p2sh address to P2WPKH');
+    }
+    network = match.network;
+  }
+
+  if (network.bech32Hrp === undefined) {
+    throw new C32NetworkError(c32addr, `Network ${network.name} has no bech32 prefix`);
+  }
+  return encodeSegwitAddress(network.bech32Hrp, 0, hexToBytes(hash160));
+}
@@ -0,0 +1,126 @@
+import { C32AddressOptions, c32addressDecode } from './address';
+import * as base58check from './base58check';
+import { c32checkDecode } from './checksum';
+import { parseContractPrincipal } from './principal';
+
+declare const brand: unique symbol;
+
+/*
+ * Tag a string type so that only values produced (or checked) by this library
+ * have it.  Branded values are still plain strings at runtime, and may be
+ * passed anywhere a string is expected.
+ */
+type Brand<T extends string, Name extends string> = T & { readonly [brand]: Name };
+
+/**
+ * A c32check string, e.g. `P2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7`, as
+ * returned by c32checkEncode().
+ */
+export type C32CheckString = Brand<string, 'C32CheckString'>;
+
+/**
+ * A c32 address, e.g. `SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7`, as returned
+ * by c32address() and b58ToC32().
+ */
+export type C32Address = Brand<`S${string}`, 'C32Address'>;
+
+/**
+ * A contract principal, i.e. `<c32 address>.<contract name>`.
+ */
+export type ContractPrincipal = Brand<`S${string}.${string}`, 'ContractPrincipal'>;
+
+/**
+ * A base58check Bitcoin address, as returned by c32ToB58().
+ */
+export type B58Address = Brand<string, 'B58Address'>;
+
+/**
+ * A 20-byte hash160, as 40 lowercase hex characters, as returned by
+ * c32addressDecode().
+ */
+export type Hash160Hex = Brand<string, 'Hash160Hex'>;
+
+/**
+ * Check whether a value is a well-formed c32check string in canonical form,
+ * i.e. as c32checkEncode() would return it.
+ * @param {unknown} value - the value to check
+ * @returns {boolean} true if the value is a canonical string with a valid checksum
+ */
+export function isC32CheckString(value: unknown): value is C32CheckString {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    c32checkDecode(value, { strict: true });
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Check whether a value is a well-formed c32 address in canonical form, i.e.
+ * as c32address() would return it: lowercase and substituted characters are
+ * rejected.  Any version number is accepted; use validateStacksAddress() to
+ * check the network.
+ * @param {unknown} value - the value to check
+ * @param {C32AddressOptions} options - the length the address's hash must
+ *   have (20 bytes by default)
+ * @returns {boolean} true if the value is a string that decodes to a version and hash
+ */
+export function isC32Address(value: unknown, options: C32AddressOptions = {}): value is C32Address {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    c32addressDecode(value, { strict: true, payloadLength: options.payloadLength });
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Check whether a value is a well-formed contract principal whose address is
+ * in canonical form.
+ * @param {unknown} value - the value to check
+ * @returns {boolean} true if the value is a string made of a c32 address and
+ *   a valid contract name
+ */
+export function isContractPrincipal(value: unknown): value is ContractPrincipal {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    parseContractPrincipal(value, { strict: true });
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Check whether a value is a well-formed base58check address, i.e. a 1-byte
+ * version followed by a hash160.
+ * @param {unknown} value - the value to check
+ * @returns {boolean} true if the value is a string that decodes to a version and hash160
+ */
+export function isB58Address(value: unknown): value is B58Address {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    return base58check.decode(value).data.length === 20;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Check whether a value is a hash160 in hex.
+ * @param {unknown} value - the value to check
+ * @returns {boolean} true if the value is a string of 40 lowercase hex characters
+ */
+export function isHash160Hex(value: unknown): value is Hash160Hex {
+  return typeof value === 'string' && /^[0-9a-f]{40}$/.test(value);
+}
@@ -0,0 +1,174 @@
+import { b58ToC32, c32addressDecode, validateStacksAddress } from './address';
+import { C32NetworkError, C32UriError } from './errors';
+import { getNetwork, StacksNetworkName } from './networks';
+import { parseContractPrincipal } from './principal';
+
+/**
+ * A Stacks payment request, as carried by a `stacks:` URI.
+ * @property {string} recipient - the c32 address or contract principal to pay
+ * @property {string} amount - the amount, as a decimal string, e.g. `'1.5'`
+ * @property {string} memo - a memo to attach to the transfer
+ * @property {string} token - the contract principal of the token to pay
+ *   with, if not STX
+ * @property {StacksNetworkName} network - the network the recipient (and
+ *   token) must belong to
+ */
+export interface StacksUri {
+  recipient: string;
+  amount?: string;
+  memo?: string;
+  token?: string;
+  network?: StacksNetworkName;
+}
+
+/**
+ * Options for bitcoinUriToStacksUri().
+ * @property {StacksNetworkName} network - the registered network to convert
+ *   the address within
+ */
+export interface BitcoinUriConversionOptions {
+  network?: StacksNetworkName;
+}
+
+const STACKS_SCHEME = 'stacks:';
+const BITCOIN_SCHEME = 'bitcoin:';
+
+// the query parameters of a stacks: URI, in the order buildStacksUri() writes them
+const STACKS_URI_PARAMS = ['amount', 'memo', 'token', 'network'] as const;
+
+const AMOUNT_REGEX = /^\d+(\.\d+)?$/;
+
+/*
+ * Split a URI into its path and the decoded values of the query parameters
+ * in `names`, checking its scheme.  Like BIP-21, parameters prefixed with
+ * `req-` must be understood by the reader, and none are defined, so any is
+ * an error.  Other unknown parameters are ignored.
+ */
+function splitUri(uri: string, scheme: string, names: readonly string[]) {
+  if (uri.slice(0, scheme.length).toLowerCase() !== scheme) {
+    throw new C32UriError(uri, `Invalid URI: expected a ${scheme} URI`);
+  }
+  const queryStart = uri.indexOf('?');
+  const path = queryStart < 0 ? uri.slice(scheme.length) : uri.slice(scheme.length, queryStart);
+  const query = queryStart < 0 ? '' : uri.slice(queryStart + 1);
+
+  const params = new Map<string, string>();
+  for (const param of query.split('&')) {
+    if (param.length === 0) {
+      continue;
+    }
+    const equals = param.indexOf('=');
+    const name = equals < 0 ? param : param.slice(0, equals);
+    if (name.startsWith('req-')) {
+      throw new C32UriError(uri, `Invalid URI: unsupported required parameter ${name}`);
+    }
+    if (!names.includes(name)) {
+      continue;
+    }
+    if (params.has(name)) {
+      throw new C32UriError(uri, `Invalid URI: duplicate parameter ${name}`);
+    }
+    try {
+      params.set(name, decodeURIComponent(equals < 0 ? '' : param.slice(equals + 1)));
+    } catch (e) {
+      throw new C32UriError(uri, `Invalid URI: bad percent-encoding in parameter ${name}`);
+    }
+  }
+  return { path, params };
+}
+
+/*
+ * Check that a recipient or token principal decodes, and belongs to the
+ * given network (or, if none is given, to some registered network).
+ * Returns the network.
+ */
+function checkPrincipal(principal: string, network?: StacksNetworkName): StacksNetworkName {
+  const address = principal.includes('.') ? parseContractPrincipal(principal).address : principal;
+  c32addressDecode(address);
+  const validation = validateStacksAddress(address, { network });
+  if (!validation.valid) {
+    throw new C32NetworkError(principal, `Invalid URI: ${String(validation.reason)}`);
+  }
+  return validation.network as StacksNetworkName;
+}
+
+/*
+ * Check a payment request's fields.
+ */
+function checkStacksUri(request: StacksUri): void {
+  if (request.network !== undefined) {
+    getNetwork(request.network);
+  }
+  // the token must be on the recipient's network
+  const network = checkPrincipal(request.recipient, request.network);
+  if (request.token !== undefined) {
+    parseContractPrincipal(request.token);
+    checkPrincipal(request.token, network);
+  }
+  if (request.amount !== undefined && !AMOUNT_REGEX.test(request.amount)) {
+    throw new C32UriError(
+      request.amount,
+      `Invalid URI: amount ${request.amount} is not a non-negative decimal number`
+    );
+  }
+}
+
+/**
+ * Parse a `stacks:` payment URI, e.g.
+ * `stacks:SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7?amount=1.5&memo=thanks`.
+ * The recipient must be a valid c32 address or contract principal.  If the
+ * URI has a `network` parameter, the recipient and token must belong to
+ * that network; otherwise they must belong to the same registered network.
+ * Unknown parameters are ignored, unless they start with `req-`.
+ * @param {string} uri - the URI
+ * @returns {StacksUri} the payment request
+ */
+export function parseStacksUri(uri: string): StacksUri {
+  const { path, params } = splitUri(uri, STACKS_SCHEME, STACKS_URI_PARAMS);
+
+  const request: StacksUri = { recipient: path };
+  for (const name of STACKS_URI_PARAMS) {
+    const value = params.get(name);
+    if (value !== undefined) {
+      request[name] = value;
+    }
+  }
+  checkStacksUri(request);
+  return request;
+}
+
+/**
+ * Build a `stacks:` payment URI.  The request is checked as by
+ * parseStacksUri(), and the memo is percent-encoded.
+ * @param {StacksUri} request - the payment request
+ * @returns {string} the URI
+ */
+export function buildStacksUri(request: StacksUri): string {
+  checkStacksUri(request);
+  const query = STACKS_URI_PARAMS.filter(name => request[name] !== undefined)
+    .map(name => `${name}=${encodeURIComponent(request[name] as string)}`)
+    .join('&');
+  return `${STACKS_SCHEME}${request.recipient}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Convert a BIP-21 `bitcoin:` URI into a `stacks:` payment request for the
+ * same account: the base58check address is converted with b58ToC32(), and
+ * the `message` parameter becomes the memo.  The amount and label are
+ * dropped, since they do not carry over to STX.
+ * @param {string} uri - the bitcoin: URI
+ * @param {BitcoinUriConversionOptions} options - the network to convert within
+ * @returns {string} the stacks: URI
+ */
+export function bitcoinUriToStacksUri(
+  uri: string,
+  options: BitcoinUriConversionOptions = {}
+): string {
+  const { path, params } = splitUri(uri, BITCOIN_SCHEME, ['message']);
+  const recipient = b58ToC32(path, -1, { network: options.network });
+  return buildStacksUri({
+    recipient,
+    memo: params.get('message'),
+    network: options.network,
+  });
+}
@@ -0,0 +1,43 @@
+import { bytesToHex } from '@noble/hashes/utils';
+import { C32InvalidHexError } from './errors';
+
+const HEX_CHARACTERS = '0123456789abcdefABCDEF';
+
+/**
+ * Find the first character of a string that is not in the given alphabet.
+ * @param {string} input - the string to check
+ * @param {string} alphabet - the allowed characters
+ * @returns {number} the index of the first bad character, or -1 if there is none
+ */
+export function findInvalidCharacter(input: string, alphabet: string): number {
+  for (let i = 0; i < input.length; i++) {
+    if (alphabet.indexOf(input[i]) < 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Normalize a hex-or-bytes argument into a bare hex string.
+ * Strings may carry an optional `0x` prefix, which is stripped; byte arrays
+ * (including Node `Buffer`s) are hex-encoded.
+ * @param {string | Uint8Array} input - the hex string or bytes
+ * @param {string} message - the error message to use if `input` is not hex
+ * @returns {string} the hex string, without a `0x` prefix
+ */
+export function toHex(input: string | Uint8Array, message?: string): string {
+  if (typeof input === 'string') {
+    const offset = /^0x/i.test(input) ? 2 : 0;
+    const hex = input.slice(offset);
+    const index = findInvalidCharacter(hex, HEX_CHARACTERS);
+    if (index >= 0) {
+      throw new C32InvalidHexError(input, index + offset, message);
+    }
+    return hex;
+  }
+  if (input instanceof Uint8Array) {
+    return bytesToHex(input);
+  }
+  throw new TypeError('Argument must be of type Uint8Array or string');
+}
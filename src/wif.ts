@@ -0,0 +1,139 @@
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { getPublicKey, utils } from '@noble/secp256k1';
+import { b58ToC32 } from './address';
+import * as base58check from './base58check';
+import { C32LengthError, C32NetworkError, C32PrivateKeyError } from './errors';
+import { hash160 } from './keys';
+import { getNetwork } from './networks';
+import { toHex } from './utils';
+
+// WIF version bytes, per Bitcoin network
+const WIF_VERSIONS = {
+  mainnet: 0x80,
+  testnet: 0xef,
+};
+
+// the byte appended to a private key whose public key is compressed
+const COMPRESSED_FLAG = 0x01;
+
+/**
+ * The Bitcoin networks WIF keys can be encoded for.  Regtest shares testnet's version.
+ */
+export type WIFNetwork = keyof typeof WIF_VERSIONS;
+
+/**
+ * Options for encodeWIF().
+ * @property {WIFNetwork} network - the network (defaults to mainnet)
+ * @property {boolean} compressed - whether the key's public key is used in
+ *   compressed form (defaults to true)
+ */
+export interface WIFEncodeOptions {
+  network?: WIFNetwork;
+  compressed?: boolean;
+}
+
+/**
+ * A decoded WIF private key.
+ * @property {string} privateKey - the 32-byte private key, as hex
+ * @property {WIFNetwork} network - the network the key was encoded for
+ * @property {boolean} compressed - whether the key's public key is used in compressed form
+ */
+export interface DecodedWIF {
+  privateKey: string;
+  network: WIFNetwork;
+  compressed: boolean;
+}
+
+/**
+ * The addresses of a WIF private key.
+ * @property {WIFNetwork} network - the network the key was encoded for
+ * @property {string} publicKey - the public key, as hex
+ * @property {string} bitcoinAddress - the P2PKH Bitcoin address
+ * @property {string} stacksAddress - the matching p2pkh Stacks address
+ */
+export interface WIFAddresses {
+  network: WIFNetwork;
+  publicKey: string;
+  bitcoinAddress: string;
+  stacksAddress: string;
+}
+
+/*
+ * Check that 32 bytes are a valid secp256k1 private key, i.e. between 1 and
+ * the curve order.
+ */
+function assertPrivateKey(input: string | Uint8Array, key: Uint8Array): void {
+  if (!utils.isValidPrivateKey(key)) {
+    throw new C32PrivateKeyError(input, 'Invalid private key: out of range for secp256k1');
+  }
+}
+
+/**
+ * Encode a secp256k1 private key in Wallet Import Format.
+ * @param {string | Uint8Array} privateKey - the 32-byte private key, as hex or bytes
+ * @param {WIFEncodeOptions} options - the network, and whether the public key is compressed
+ * @returns {string} the WIF key
+ */
+export function encodeWIF(privateKey: string | Uint8Array, options: WIFEncodeOptions = {}): string {
+  const hex = toHex(privateKey, 'Invalid private key: not a hex string');
+  if (hex.length !== 64) {
+    throw new C32LengthError(privateKey, 'Invalid private key: must be 32 bytes');
+  }
+  const key = hexToBytes(hex);
+  assertPrivateKey(privateKey, key);
+
+  const network = options.network ?? 'mainnet';
+  if (!Object.prototype.hasOwnProperty.call(WIF_VERSIONS, network)) {
+    throw new C32NetworkError(network, `Unknown WIF network ${String(network)}`);
+  }
+
+  const compressed = options.compressed ?? true;
+  const data = compressed ? new Uint8Array([...key, COMPRESSED_FLAG]) : key;
+  return base58check.encode(data, new Uint8Array([WIF_VERSIONS[network]]));
+}
+
+/**
+ * Decode a private key in Wallet Import Format.
+ * @param {string} wif - the WIF key
+ * @returns {DecodedWIF} the private key, network and compression flag
+ */
+export function decodeWIF(wif: string): DecodedWIF {
+  const { prefix, data } = base58check.decode(wif);
+
+  const network = (Object.keys(WIF_VERSIONS) as WIFNetwork[]).find(
+    name => WIF_VERSIONS[name] === prefix[0]
+  );
+  if (network === undefined) {
+    throw new C32NetworkError(wif, `Unknown WIF version ${prefix[0]}`);
+  }
+
+  if (data.length !== 32 && data.length !== 33) {
+    throw new C32LengthError(wif, 'Invalid WIF key: must hold 32 or 33 bytes');
+  }
+  const compressed = data.length === 33;
+  if (compressed && data[32] !== COMPRESSED_FLAG) {
+    throw new C32PrivateKeyError(wif, 'Invalid WIF key: bad compression flag');
+  }
+  const key = data.slice(0, 32);
+  assertPrivateKey(wif, key);
+
+  return { privateKey: bytesToHex(key), network, compressed };
+}
+
+/**
+ * Derive the public key of a WIF private key, and the P2PKH Bitcoin address
+ * and matching Stacks address it controls.  The public key is compressed
+ * unless the WIF key says otherwise.
+ * @param {string} wif - the WIF key
+ * @returns {WIFAddresses} the public key and both addresses
+ */
+export function wifToAddresses(wif: string): WIFAddresses {
+  const { privateKey, network, compressed } = decodeWIF(wif);
+  const publicKey = bytesToHex(getPublicKey(privateKey, compressed));
+
+  const bitcoinVersion = getNetwork(network).bitcoinVersions.p2pkh;
+  const bitcoinAddress = base58check.encode(hash160(publicKey), new Uint8Array([bitcoinVersion]));
+  const stacksAddress = b58ToC32(bitcoinAddress, -1, { network });
+
+  return { network, publicKey, bitcoinAddress, stacksAddress };
+}
@@ -0,0 +1,83 @@
+/**
+ * @file c32.ts
+ * @description Compares the throughput of the byte-level c32encode/c32decode
+ * against the legacy nibble-at-a-time implementation, and checks that both
+ * produce the same output.
+ *
+ * Run: npm run benchmark
+ */
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { c32decode, c32encode } from '../../src/encoding';
+import * as legacy from './legacy';
+
+const ROUNDS = 5;
+
+/*
+ * Deterministic pseudo-random hex inputs of 1 to `maxBytes` bytes, some with
+ * leading zero bytes, derived from a SHA-256 chain.
+ */
+function makeInputs(count: number, maxBytes: number): string[] {
+  const inputs = [];
+  let seed = sha256('c32check benchmark');
+  for (let i = 0; i < count; i++) {
+    let data = '';
+    while (data.length < maxBytes * 2) {
+      seed = sha256(seed);
+      data += bytesToHex(seed);
+    }
+    const length = 1 + (seed[0] % maxBytes);
+    const zeros = seed[1] % 4 === 0 ? seed[2] % 3 : 0;
+    inputs.push('00'.repeat(zeros) + data.slice(0, (length - zeros) * 2));
+  }
+  return inputs;
+}
+
+/*
+ * Run `fn` over every input, ROUNDS times, and return the best rate in operations per second.
+ */
+function measure(inputs: string[], fn: (input: string) => string): number {
+  let best = Infinity;
+  for (let round = 0; round < ROUNDS; round++) {
+    const start = process.hrtime();
+    for (const input of inputs) {
+      fn(input);
+    }
+    const [seconds, nanoseconds] = process.hrtime(start);
+    best = Math.min(best, seconds + nanoseconds / 1e9);
+  }
+  return inputs.length / best;
+}
+
+/*
+ * Check that both implementations agree on a set of inputs, then time each.
+ */
+function compare(label: string, hexInputs: string[]) {
+  const c32Inputs = hexInputs.map(input => c32encode(input));
+
+  for (let i = 0; i < hexInputs.length; i++) {
+    if (c32encode(hexInputs[i]) !== legacy.c32encode(hexInputs[i])) {
+      throw new Error(`c32encode mismatch on ${hexInputs[i]}`);
+    }
+    if (c32decode(c32Inputs[i]) !== legacy.c32decode(c32Inputs[i])) {
+      throw new Error(`c32decode mismatch on ${c32Inputs[i]}`);
+    }
+  }
+
+  for (const [name, current, old, inputs] of [
+    ['c32encode', c32encode, legacy.c32encode, hexInputs],
+    ['c32decode', c32decode, legacy.c32decode, c32Inputs],
+  ] as [string, (input: string) => string, (input: string) => string, string[]][]) {
+    const oldRate = measure(inputs, old);
+    const newRate = measure(inputs, current);
+    console.log(
+      `${`${name} (${label})`.padEnd(32)}` +
+        `legacy ${Math.round(oldRate).toString().padStart(9)} ops/s   ` +
+        `new ${Math.round(newRate).toString().padStart(9)} ops/s   ` +
+        `${(newRate / oldRate).toFixed(1)}x`
+    );
+  }
+}
+
+compare('hash160-sized', makeInputs(20000, 24));
+compare('up to 1 KiB', makeInputs(500, 1024));
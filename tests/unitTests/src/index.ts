@@ -26,8 +26,91 @@ import {
   c32addressDecode,
   c32ToB58,
   b58ToC32,
+  validateStacksAddress,
+  formatAddress,
+  parseStacksUri,
+  buildStacksUri,
+  bitcoinUriToStacksUri,
+  accountKey,
+  sameAccount,
+  poxAddressToBtcAddress,
+  btcAddressToPoxAddress,
+  POX_ADDRESS_VERSIONS,
+  registerNetwork,
+  unregisterNetwork,
+  getNetwork,
+  getNetworkByVersion,
+  getNetworkByBitcoinVersion,
+  base58check,
+  bech32,
+  parseSegwitAddress,
+  segwitToC32,
+  c32ToSegwit,
+  hash160,
+  publicKeyToAddress,
+  encodeWIF,
+  decodeWIF,
+  wifToAddresses,
+  multisigAddress,
+  multisigScript,
+  decodeMultisigScript,
+  convertMany,
+  createConvertStream,
+  c32encodeBytes,
+  c32decodeBytes,
+  c32normalize,
+  c32encodeInt,
+  c32decodeInt,
+  c32checkEncodeBytes,
+  c32checkDecodeBytes,
+  c32addressBytes,
+  c32addressDecodeBytes,
+  suggestCorrections,
+  isC32CheckString,
+  isC32Address,
+  isContractPrincipal,
+  isB58Address,
+  isHash160Hex,
+  C32CheckString,
+  C32Address,
+  ContractPrincipal,
+  B58Address,
+  Hash160Hex,
+  contractPrincipal,
+  parseContractPrincipal,
+  parsePrincipal,
+  isValidContractName,
+  serializePrincipal,
+  serializePrincipalBytes,
+  deserializePrincipal,
+  toNetwork,
+  C32Error,
+  C32InvalidCharacterError,
+  C32InvalidHexError,
+  C32LengthError,
+  C32VersionError,
+  C32ChecksumError,
+  C32PrincipalError,
+  C32ContractNameError,
+  C32NetworkError,
+  C32UnsupportedAddressError,
+  C32PublicKeyError,
+  C32PrivateKeyError,
+  C32MultisigError,
+  C32UriError,
+  C32IntegerError,
+  Base58InvalidCharacterError,
+  Base58ChecksumError,
+  Bech32ChecksumError,
+  Bech32FormatError,
+  Bech32InvalidCharacterError,
 } from '../../../src/index';
-import { encode } from '../../../src/base58check';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { encode, decode } from '../../../src/base58check';
+import { runCli } from '../../../src/cli';
+import * as legacy from '../../benchmark/legacy';
+import { PassThrough } from 'stream';
 import * as c32check from '../../../src/index';
 
 // ---------------------------------------------------------------------------
@@ -211,6 +294,75 @@ export function c32encodingTests() {
     }
   });
 
+  // --- byte-oriented counterparts ---
+  test('c32encodeBytes and c32decodeBytes', t => {
+    // 4 assertions per input: bytes encode, bytes decode, 0x-prefixed hex, Buffer input
+    t.plan(hexStrings.length * 4);
+
+    for (let i = 0; i < hexStrings.length; i++) {
+      const paddedHexString = hexStrings[i].length % 2 === 0 ? hexStrings[i] : `0${hexStrings[i]}`;
+      const bytes = hexToBytes(paddedHexString);
+
+      const z = c32encodeBytes(bytes, c32minLengths[i]);
+      t.equal(z, c32Strings[i], `c32encodeBytes: expected ${c32Strings[i]}, got ${z}`);
+
+      const h = bytesToHex(c32decodeBytes(c32Strings[i], hexMinLengths[i]));
+      t.equal(h, paddedHexString, `c32decodeBytes: expected ${paddedHexString}, got ${h}`);
+
+      const zPrefixed = c32encode(`0x${hexStrings[i]}`, c32minLengths[i]);
+      t.equal(zPrefixed, c32Strings[i], `c32encode 0x-prefixed: expected ${c32Strings[i]}`);
+
+      const zBuffer = c32encode(Buffer.from(paddedHexString, 'hex'), c32minLengths[i]);
+      t.equal(zBuffer, c32Strings[i], `c32encode Buffer: expected ${c32Strings[i]}`);
+    }
+  });
+
+  // --- comparison with the legacy nibble-at-a-time implementation ---
+  test('c32encode and c32decode match the legacy implementation', t => {
+    // deterministic inputs of 0 to 63 bytes, every fourth with leading zero bytes
+    const inputs = ['', '00', '0000', '01', 'ff', '00ff', '0000000001'];
+    let seed = sha256('c32encode');
+    for (let i = 0; i < 256; i++) {
+      seed = sha256(seed);
+      const data = bytesToHex(seed) + bytesToHex(sha256(seed));
+      const zeros = i % 4 === 0 ? '00'.repeat(1 + (seed[0] % 3)) : '';
+      inputs.push(zeros + data.slice(0, (seed[1] % 64) * 2));
+    }
+    t.plan(inputs.length * 3);
+
+    for (const input of inputs) {
+      const encoded = c32encode(input);
+      t.equal(encoded, legacy.c32encode(input), `c32encode ${input}`);
+      t.equal(c32decode(encoded), legacy.c32decode(encoded), `c32decode ${encoded}`);
+      t.equal(c32encode(input, 120), legacy.c32encode(input, 120), `c32encode padded ${input}`);
+    }
+  });
+
+  test('c32encode does not count zero bytes after a leading BOM as leading zeros', t => {
+    // the legacy implementation decoded the input as UTF-8, which skips a
+    // leading byte order mark and so counted the zero bytes after it
+    t.plan(3);
+    t.equal(c32encode('efbbbf0000'), 'XYXVY000');
+    t.equal(c32decode(c32encode('efbbbf0000')), 'efbbbf0000');
+    t.equal(legacy.c32encode('efbbbf0000'), '00XYXVY000', 'legacy output differs');
+  });
+
+  // --- strict decoding ---
+  test('c32decode strict', t => {
+    const nonCanonical = ['38cnp6rvs0exqq4v34', '38CNP6RVSOEXQQ4V34', 'I', 'L0', '0O'];
+    t.plan(c32Strings.length + nonCanonical.length);
+
+    for (let i = 0; i < c32Strings.length; i++) {
+      const paddedHexString = hexStrings[i].length % 2 === 0 ? hexStrings[i] : `0${hexStrings[i]}`;
+      const h = c32decode(c32Strings[i], hexMinLengths[i], { strict: true });
+      t.equal(h, paddedHexString, `c32decode strict: expected ${paddedHexString}, got ${h}`);
+    }
+
+    for (const input of nonCanonical) {
+      t.throws(() => c32decode(input, undefined, { strict: true }), `rejects ${input}`);
+    }
+  });
+
   // --- invalid input tests ---
   test('invalid input', t => {
     t.plan(2);
@@ -233,6 +385,102 @@ export function c32encodingTests() {
   });
 }
 
+// ---------------------------------------------------------------------------
+// c32crockfordTests
+// ---------------------------------------------------------------------------
+
+/**
+ * Tests Crockford mode: ignored hyphens and the mod-37 check symbol.
+ */
+export function c32crockfordTests() {
+  // hex, and its c32 encoding with a check symbol
+  const vectors = [
+    ['', '0'],
+    ['00', '00'],
+    ['01', '11'],
+    ['1f', 'ZZ'],
+    ['20', '10*'],
+    ['ff', '7Z~'],
+    ['24', '14U'],
+    ['25', '150'],
+    ['04d2', '16JD'],
+    ['0000ab', '005BQ'],
+    ['a46ff88886c2ef9762d970b4d2c63678835bd39d', 'MHQZH246RBQSERPSE2TD5HHPF21NQMWXC'],
+  ];
+
+  test('c32encode with check symbol', t => {
+    for (const [hex, encoded] of vectors) {
+      t.equal(c32encode(hex, undefined, { checkSymbol: true }), encoded);
+      t.equal(c32encodeBytes(hexToBytes(hex), undefined, { checkSymbol: true }), encoded);
+      t.equal(c32encode(hex, undefined, { crockford: true }), c32encode(hex), 'no hyphens');
+    }
+    t.equal(c32encode('04d2', 6, { checkSymbol: true }), '00016JD', 'minLength excludes symbol');
+    t.end();
+  });
+
+  test('c32decode with check symbol', t => {
+    for (const [hex, encoded] of vectors) {
+      t.equal(c32decode(encoded, undefined, { checkSymbol: true }), hex);
+      t.equal(c32decode(encoded.toLowerCase(), undefined, { checkSymbol: true }), hex);
+      t.equal(c32decode(encoded, undefined, { checkSymbol: true, strict: true }), hex);
+    }
+    t.equal(c32decode('16-jd', undefined, { checkSymbol: true }), '04d2');
+    t.equal(c32decode('14u', undefined, { checkSymbol: true }), '24', 'lowercase U');
+    t.end();
+  });
+
+  test('c32decode in Crockford mode', t => {
+    t.plan(7);
+    t.equal(c32decode('16-J', undefined, { crockford: true }), '04d2');
+    t.equal(c32decode('-1-6-J-', undefined, { crockford: true }), '04d2');
+    t.equal(c32decode('1oi-l', undefined, { crockford: true }), c32decode('1011'));
+    t.equal(c32decode('16-J', undefined, { crockford: true, strict: true }), '04d2');
+    t.deepEqual(c32decodeBytes('16-J', undefined, { crockford: true }), hexToBytes('04d2'));
+    t.equal(c32decode('16-J', 4, { crockford: true }), '000004d2');
+    t.throws(() => c32decode('16-J'), C32InvalidCharacterError, 'hyphens need Crockford mode');
+  });
+
+  test('c32normalize in Crockford mode', t => {
+    t.plan(4);
+    t.equal(c32normalize('mhqz-h246-o'), 'MHQZ-H246-0');
+    t.equal(c32normalize('mhqz-h246-o', { crockford: true }), 'MHQZH2460');
+    t.equal(c32normalize('16-jd', { checkSymbol: true }), '16JD');
+    t.equal(c32normalize('ab-c'), 'AB-C');
+  });
+
+  test('invalid check symbols', t => {
+    const mismatches = ['16JE', '10~', '7Z*', '150*', '16J0'];
+    for (const input of mismatches) {
+      t.throws(
+        () => c32decode(input, undefined, { checkSymbol: true }),
+        C32ChecksumError,
+        `mismatch in ${input}`
+      );
+    }
+    const invalid = (input: string, index: number, options: Record<string, boolean>) => {
+      try {
+        c32decode(input, undefined, options);
+        t.fail(`should have thrown on ${input}`);
+      } catch (e) {
+        t.ok(e instanceof C32InvalidCharacterError, `invalid character in ${input}`);
+        t.equal((e as C32InvalidCharacterError).index, index, `index in ${input}`);
+      }
+    };
+    invalid('16J#', 3, { checkSymbol: true });
+    invalid('16J-', 3, { checkSymbol: true });
+    invalid('1*JD', 1, { checkSymbol: true });
+    invalid('16jd', 2, { checkSymbol: true, strict: true });
+    invalid('14u', 2, { checkSymbol: true, strict: true });
+    invalid('1-6#', 3, { crockford: true });
+    t.throws(
+      () => c32decode('', undefined, { checkSymbol: true }),
+      C32LengthError,
+      'missing check symbol'
+    );
+    t.end();
+  });
+}
+
 // ---------------------------------------------------------------------------
 // c32encodingRandomBytes  (only run when BIG_DATA_TESTS env var is set)
 // ---------------------------------------------------------------------------
@@ -542,6 +790,51 @@ export function c32checkEncodingTests() {
     }
   });
 
+  test('c32checkEncodeBytes and c32checkDecodeBytes', t => {
+    // 4 assertions per combination: bytes encode, 0x-prefixed encode, decoded version, decoded data
+    t.plan(hexStrings.length * versions.length * 4);
+
+    for (let i = 0; i < hexStrings.length; i++) {
+      for (let j = 0; j < versions.length; j++) {
+        const h = hexStrings[i].length % 2 !== 0 ? `0${hexStrings[i]}` : hexStrings[i];
+        const v = versions[j];
+
+        const z = c32checkEncodeBytes(v, hexToBytes(h));
+        t.equal(z, c32strings[j][i], `c32checkEncodeBytes version=${v} ${h}`);
+        t.equal(c32checkEncode(v, `0x${h}`), c32strings[j][i], `c32checkEncode 0x version=${v}`);
+
+        const decoded = c32checkDecodeBytes(z);
+        t.equal(decoded.version, v, `c32checkDecodeBytes ${z}: version`);
+        t.equal(bytesToHex(decoded.data), h, `c32checkDecodeBytes ${z}: data`);
+      }
+    }
+  });
+
+  test('c32checkDecode strict', t => {
+    const variants: string[] = [];
+    for (const row of c32strings) {
+      for (const z of row) {
+        variants.push(
+          ...[z.toLowerCase(), z.replace(/0/g, 'O'), z.replace(/1/g, 'L')].filter(v => v !== z)
+        );
+      }
+    }
+    // Per combination: canonical form accepted; per substituted variant: rejected
+    t.plan(hexStrings.length * versions.length + variants.length);
+
+    for (let i = 0; i < hexStrings.length; i++) {
+      for (let j = 0; j < versions.length; j++) {
+        const z = c32strings[j][i];
+        const h = hexStrings[i].length % 2 !== 0 ? `0${hexStrings[i]}` : hexStrings[i];
+        t.deepEqual(c32checkDecode(z, { strict: true }), [versions[j], h], `strict decode ${z}`);
+      }
+    }
+
+    for (const variant of variants) {
+      t.throws(() => c32checkDecode(variant, { strict: true }), `strict rejects ${variant}`);
+    }
+  });
+
   /**
    * Tests that invalid inputs are rejected by both encode and decode.
    *
@@ -622,6 +915,100 @@ export function c32checkEncodingTests() {
   });
 }
 
+// ---------------------------------------------------------------------------
+// c32integerTests
+// ---------------------------------------------------------------------------
+
+/**
+ * Tests c32 encoding and decoding of integers, with and without checksums.
+ */
+export function c32integerTests() {
+  const vectors: [bigint | number, string, string][] = [
+    [0, '0', '00107ZTTA'],
+    [1, '1', '04C407K6'],
+    [31, 'Z', '03ZJMWA4F'],
+    [32, '10', '041AW0BTA'],
+    [1023, 'ZZ', '03ZZPHAYAG'],
+    [1024n, '100', '0400TJTNJ2'],
+    [2n ** 64n - 1n, 'FZZZZZZZZZZZZ', '01ZZZZZZZZZZZZXB5X498'],
+  ];
+
+  test('c32encodeInt', t => {
+    for (const [value, encoded, checked] of vectors) {
+      t.equal(c32encodeInt(value), encoded);
+      t.equal(c32encodeInt(value, { checksum: true }), checked);
+      // the same digits as c32encode() of the integer's hex
+      t.equal(c32encodeInt(value), c32encode(value.toString(16)));
+    }
+    t.equal(c32encodeInt(Number.MAX_SAFE_INTEGER), c32encodeInt(BigInt(Number.MAX_SAFE_INTEGER)));
+    t.end();
+  });
+
+  test('c32encodeInt minLength', t => {
+    t.plan(6);
+    t.equal(c32encodeInt(0, { minLength: 4 }), '0000');
+    t.equal(c32encodeInt(1024, { minLength: 4 }), '0100');
+    t.equal(c32encodeInt(1024, { minLength: 2 }), '100', 'never truncates');
+    t.equal(c32encodeInt(0, { checksum: true, minLength: 12 }), '000001WG3BWK');
+    t.equal(c32encodeInt(1, { checksum: true, minLength: 12 }), '000006644137');
+    t.equal(c32encodeInt(1, { checksum: true, version: 22, minLength: 12 }).length, 12);
+  });
+
+  test('c32decodeInt', t => {
+    for (const [value, encoded, checked] of vectors) {
+      t.equal(c32decodeInt(encoded), BigInt(value));
+      t.equal(c32decodeInt(`000${encoded}`), BigInt(value), 'leading zeros');
+      t.equal(c32decodeInt(checked, { checksum: true }), BigInt(value));
+      t.equal(c32decodeInt(encoded.toLowerCase()), BigInt(value), 'lowercase');
+    }
+    t.equal(c32decodeInt('1O'), 32n, 'O is read as 0');
+    t.equal(c32decodeInt('IL'), 33n, 'I and L are read as 1');
+    t.equal(c32decodeInt('000006644137', { checksum: true }), 1n);
+    t.equal(
+      c32decodeInt(c32encodeInt(12345, { checksum: true, version: 7 }), {
+        checksum: true,
+        version: 7,
+      }),
+      12345n
+    );
+    t.end();
+  });
+
+  test('c32encodeInt/c32decodeInt round trip', t => {
+    let value = 1n;
+    for (let i = 0; i < 100; i++) {
+      value = value * 7n + BigInt(i);
+      t.equal(c32decodeInt(c32encodeInt(value)), value);
+      t.equal(c32decodeInt(c32encodeInt(value, { checksum: true }), { checksum: true }), value);
+    }
+    t.end();
+  });
+
+  test('invalid c32 integers', t => {
+    t.plan(12);
+    try {
+      c32encodeInt(-1);
+    } catch (e) {
+      t.equal((e as C32IntegerError).code, 'INVALID_INTEGER');
+      t.equal((e as C32IntegerError).input, -1);
+    }
+    t.throws(() => c32encodeInt(-1), C32IntegerError, 'negative number');
+    t.throws(() => c32encodeInt(-1n), C32IntegerError, 'negative bigint');
+    t.throws(() => c32encodeInt(1.5), C32IntegerError, 'fraction');
+    t.throws(() => c32encodeInt(2 ** 53), C32IntegerError, 'unsafe integer');
+    t.throws(() => c32encodeInt(1, { checksum: true, version: 32 }), C32VersionError, 'version');
+    t.throws(() => c32decodeInt(''), C32LengthError, 'empty');
+    t.throws(() => c32decodeInt('1U'), C32InvalidCharacterError, 'invalid character');
+    t.throws(() => c32decodeInt('1o', { strict: true }), C32InvalidCharacterError, 'strict');
+    t.throws(() => c32decodeInt('04C407K7', { checksum: true }), C32ChecksumError, 'checksum');
+    t.throws(
+      () => c32decodeInt('04C407K6', { checksum: true, version: 1 }),
+      C32VersionError,
+      'wrong version'
+    );
+  });
+}
+
 // ---------------------------------------------------------------------------
 // c32addressTests
 // ---------------------------------------------------------------------------
@@ -736,6 +1123,79 @@ export function c32addressTests() {
     }
   });
 
+  test('c32addressBytes and c32addressDecodeBytes', t => {
+    // 4 assertions per combination: bytes encode, Buffer encode, decoded version, decoded hash160
+    t.plan(hexStrings.length * versions.length * 4);
+
+    for (let i = 0; i < hexStrings.length; i++) {
+      for (let j = 0; j < versions.length; j++) {
+        const h = hexStrings[i];
+        const v = versions[j];
+
+        const z = c32addressBytes(v, hexToBytes(h));
+        t.equal(z, c32addresses[j][i], `c32addressBytes version=${v} ${h}`);
+        t.equal(c32address(v, Buffer.from(h, 'hex')), c32addresses[j][i], `c32address Buffer`);
+
+        const decoded = c32addressDecodeBytes(z);
+        t.equal(decoded.version, v, `c32addressDecodeBytes ${z}: version`);
+        t.equal(bytesToHex(decoded.hash160), h, `c32addressDecodeBytes ${z}: hash160`);
+      }
+    }
+  });
+
+  test('c32addressDecode strict', t => {
+    const canonical = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+    const hash160 = 'a46ff88886c2ef9762d970b4d2c63678835bd39d';
+    t.plan(4);
+
+    t.deepEqual(c32addressDecode(canonical, { strict: true }), [22, hash160]);
+    // Accepted by default, but rejected in strict mode.
+    t.deepEqual(c32addressDecode('Sp2j6zy48gv1ez5v2v5rb9mp66sw86pykknrv9ej7'), [22, hash160]);
+    t.throws(() => c32addressDecode('Sp2j6zy48gv1ez5v2v5rb9mp66sw86pykknrv9ej7', { strict: true }));
+    t.throws(() => c32addressDecode('SP2J6ZY48GVIEZ5V2V5RB9MP66SW86PYKKNRV9EJ7', { strict: true }));
+  });
+
+  test('validateStacksAddress', t => {
+    const hash160 = 'a46ff88886c2ef9762d970b4d2c63678835bd39d';
+    t.plan(10);
+
+    t.deepEqual(validateStacksAddress('SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7'), {
+      valid: true,
+      network: 'mainnet',
+      type: 'p2pkh',
+      version: 22,
+      hash160,
+    });
+    t.deepEqual(validateStacksAddress('SN2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKP6D2ZK9'), {
+      valid: true,
+      network: 'testnet',
+      type: 'p2sh',
+      version: 21,
+      hash160,
+    });
+
+    const mismatch = validateStacksAddress('ST2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKQYAC0RQ', {
+      network: 'mainnet',
+    });
+    t.equal(mismatch.valid, false, 'testnet address rejected for mainnet');
+    t.equal(mismatch.network, 'testnet', 'decoded network still reported');
+    t.ok(mismatch.reason, 'reason given for network mismatch');
+
+    const wrongType = validateStacksAddress('SM2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKQVX8X0G', {
+      allowedTypes: ['p2pkh'],
+    });
+    t.equal(wrongType.valid, false, 'p2sh address rejected when only p2pkh allowed');
+
+    const unknown = validateStacksAddress('S02J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKPVKG2CE');
+    t.equal(unknown.valid, false, 'unknown version rejected');
+    t.equal(unknown.version, 0, 'unknown version still reported');
+
+    const invalid = validateStacksAddress('ST2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKQYAC0RR');
+    t.deepEqual(invalid, { valid: false, reason: 'Invalid c32check string: checksum mismatch' });
+
+    t.equal(validateStacksAddress('SP000000000000000000002Q6VF78').valid, true, 'zero hash160');
+  });
+
   /**
    * Verifies that c32address and c32addressDecode reject malformed inputs.
    *
@@ -787,6 +1247,75 @@ export function c32addressTests() {
       }
     }
   });
+
+  test('c32address payload lengths', t => {
+    const hash32 = bytesToHex(sha256('c32check'));
+    const hash20 = 'a46ff88886c2ef9762d970b4d2c63678835bd39d';
+    for (const version of [0, 20, 22, 26, 31]) {
+      const address = c32address(version, hash32, { payloadLength: 32 });
+      t.equal(address, `S${c32checkEncode(version, hash32)}`);
+      t.equal(c32addressBytes(version, hexToBytes(hash32), { payloadLength: 32 }), address);
+      t.deepEqual(c32addressDecode(address, { payloadLength: 32 }), [version, hash32]);
+      t.deepEqual(c32addressDecodeBytes(address, { payloadLength: 32 }), {
+        version,
+        hash160: hexToBytes(hash32),
+      });
+      t.throws(() => c32addressDecode(address), C32LengthError, 'hash160 expected by default');
+      t.throws(
+        () => c32addressDecode(c32address(version, hash20), { payloadLength: 32 }),
+        C32LengthError,
+        'hash160 with payloadLength 32'
+      );
+    }
+    t.equal(c32address(22, hash20, { payloadLength: 20 }), c32address(22, hash20));
+
+    // the helpers that validate addresses take the same option
+    const address32 = c32address(22, hash32, { payloadLength: 32 });
+    t.equal(
+      formatAddress(address32, { style: 'grouped', separator: '-', payloadLength: 32 }),
+      address32.match(/.{1,4}/g)?.join('-')
+    );
+    t.throws(() => formatAddress(address32), C32LengthError, 'formatAddress expects a hash160');
+    t.deepEqual(validateStacksAddress(address32, { payloadLength: 32 }), {
+      valid: true,
+      network: 'mainnet',
+      type: 'p2pkh',
+      version: 22,
+      hash160: hash32,
+    });
+    t.equal(validateStacksAddress(address32).valid, false);
+    t.ok(isC32Address(address32, { payloadLength: 32 }));
+    t.notOk(isC32Address(address32), 'isC32Address expects a hash160');
+    t.notOk(isC32Address(c32address(22, hash20), { payloadLength: 32 }));
+
+    // only c32address can make 20- and 32-byte payloads, but any length passes the checksum
+    for (const data of ['', '00', hash20.slice(2), `${hash20}00`, hash32.slice(2), `${hash32}00`]) {
+      const address = `S${c32checkEncode(22, data)}`;
+      t.throws(() => c32addressDecode(address), C32LengthError, `${data.length / 2} bytes`);
+      t.throws(() => c32addressDecode(address, { payloadLength: 32 }), C32LengthError);
+      t.equal(validateStacksAddress(address).valid, false);
+      // c32ToB58 converts any payload, as it did before payloadLength existed
+      t.deepEqual(decode(c32ToB58(address)).data, hexToBytes(data), 'c32ToB58');
+    }
+
+    t.throws(() => c32address(22, hash20, { payloadLength: 32 }), C32LengthError);
+    t.throws(() => c32address(22, hash32), C32LengthError);
+    t.throws(() => c32address(22, hash32, { payloadLength: 16 as 32 }), RangeError);
+    t.throws(
+      () => c32addressDecode(c32address(22, hash20), { payloadLength: 0 as 20 }),
+      RangeError
+    );
+
+    // only 20-byte payloads decode to a Hash160Hex
+    const hash160Hex: Hash160Hex = c32addressDecode(c32address(22, hash20))[1];
+    // @ts-expect-error a 32-byte payload is not a hash160
+    const notHash160Hex: Hash160Hex = c32addressDecode(
+      c32address(22, hash32, { payloadLength: 32 }),
+      { payloadLength: 32 }
+    )[1];
+    t.deepEqual([hash160Hex, notHash160Hex], [hash20, hash32]);
+    t.end();
+  });
 }
 
 // ---------------------------------------------------------------------------
@@ -1093,6 +1622,1636 @@ export function c32ToB58Test() {
   });
 }
 
+// ---------------------------------------------------------------------------
+// addressFormatTests
+// ---------------------------------------------------------------------------
+
+/**
+ * Tests formatting addresses for display, and decoding grouped addresses.
+ */
+export function addressFormatTests() {
+  const address = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+  const hash = 'a46ff88886c2ef9762d970b4d2c63678835bd39d';
+  const grouped = 'SP2J 6ZY4 8GV1 EZ5V 2V5R B9MP 66SW 86PY KKNR V9EJ 7';
+
+  test('formatAddress truncate', t => {
+    t.plan(6);
+    t.equal(formatAddress(address), 'SP2J6Z…V9EJ7');
+    t.equal(formatAddress(address, { style: 'truncate' }), 'SP2J6Z…V9EJ7');
+    t.equal(formatAddress(address, { head: 4, tail: 4 }), 'SP2J…9EJ7');
+    t.equal(formatAddress(`S${address.slice(1).toLowerCase()}`), 'SP2J6Z…V9EJ7', 'canonical');
+    t.equal(formatAddress(address, { head: 20, tail: 21 }), address, 'nothing to truncate');
+    t.equal(formatAddress(address, { head: 40, tail: 1 }), address);
+  });
+
+  test('formatAddress grouped', t => {
+    t.plan(4);
+    t.equal(formatAddress(address, { style: 'grouped' }), grouped);
+    t.equal(
+      formatAddress(address, { style: 'grouped', groupSize: 5, separator: '-' }),
+      'SP2J6-ZY48G-V1EZ5-V2V5R-B9MP6-6SW86-PYKKN-RV9EJ-7'
+    );
+    t.equal(formatAddress(address, { style: 'grouped', groupSize: 41 }), address);
+    t.equal(formatAddress(address, { style: 'grouped', groupSize: 100 }), address);
+  });
+
+  test('formatAddress invalid input', t => {
+    t.plan(7);
+    t.throws(() => formatAddress(`${address.slice(0, -1)}8`), C32ChecksumError, 'bad address');
+    t.throws(() => formatAddress(grouped), C32InvalidCharacterError, 'already grouped');
+    t.throws(() => formatAddress(address, { head: 0 }), RangeError, 'head');
+    t.throws(() => formatAddress(address, { tail: 1.5 }), RangeError, 'tail');
+    t.throws(() => formatAddress(address, { style: 'grouped', groupSize: 0 }), RangeError);
+    t.throws(
+      () => formatAddress(address, { style: 'grouped', separator: '_' as ' ' }),
+      RangeError,
+      'separator'
+    );
+    t.throws(() => formatAddress(address, { style: 'short' as 'truncate' }), RangeError, 'style');
+  });
+
+  test('c32addressDecode grouped', t => {
+    const inputs = [
+      grouped,
+      formatAddress(address, { style: 'grouped', groupSize: 5, separator: '-' }),
+      grouped.toLowerCase().replace(/^s/, 'S'),
+      ` ${grouped.replace(/ /g, '  ')}\n`,
+      'SP2J-6ZY4 8GV1\tEZ5V2V5RB9MP66SW86PYKKNRV9EJ7',
+      address,
+    ];
+    for (const input of inputs) {
+      t.deepEqual(c32addressDecode(input, { grouped: true }), [22, hash]);
+    }
+    t.deepEqual(c32addressDecodeBytes(grouped, { grouped: true }), {
+      version: 22,
+      hash160: hexToBytes(hash),
+    });
+    t.end();
+  });
+
+  test('c32addressDecode rejects grouped and truncated input', t => {
+    t.plan(10);
+    t.throws(() => c32addressDecode(grouped), C32InvalidCharacterError, 'grouped by default');
+    for (const options of [{}, { grouped: true }]) {
+      t.throws(() => c32addressDecode('SP2J6Z…V9EJ7', options), C32LengthError, 'truncated');
+      t.throws(() => c32addressDecode('SP2J6Z...V9EJ7', options), C32LengthError, 'dots');
+      t.throws(
+        () => c32addressDecode(`${address.slice(0, 20)}…${address.slice(21)}`, options),
+        C32LengthError,
+        'ellipsis in place of one character'
+      );
+    }
+    try {
+      c32addressDecode('SP2J 6ZU4 8GV1 EZ5V 2V5R B9MP 66SW 86PY KKNR V9EJ 7', { grouped: true });
+    } catch (e) {
+      t.ok(e instanceof C32InvalidCharacterError);
+      t.equal((e as C32InvalidCharacterError).index, 7, 'index within the grouped input');
+    }
+    t.throws(
+      () => c32addressDecode('SP2J 6ZY4 8GV1', { grouped: true }),
+      C32ChecksumError,
+      'incomplete'
+    );
+  });
+}
+
+// ---------------------------------------------------------------------------
+// stacksUriTests
+// ---------------------------------------------------------------------------
+
+/**
+ * Tests building and parsing stacks: payment URIs, and converting bitcoin: URIs.
+ */
+export function stacksUriTests() {
+  const mainnet = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+  const testnet = 'ST2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKQYAC0RQ';
+  const token = `${mainnet}.my-token`;
+
+  test('buildStacksUri', t => {
+    t.plan(5);
+    t.equal(buildStacksUri({ recipient: mainnet }), `stacks:${mainnet}`);
+    t.equal(
+      buildStacksUri({ recipient: mainnet, amount: '1.5', memo: 'thanks & 100% ☕' }),
+      `stacks:${mainnet}?amount=1.5&memo=thanks%20%26%20100%25%20%E2%98%95`
+    );
+    t.equal(
+      buildStacksUri({ network: 'mainnet', token, amount: '10', recipient: `${mainnet}.vault` }),
+      `stacks:${mainnet}.vault?amount=10&token=${token}&network=mainnet`,
+      'parameters in a fixed order'
+    );
+    t.equal(
+      buildStacksUri({ recipient: testnet, network: 'regtest' }),
+      `stacks:${testnet}?network=regtest`,
+      'network sharing testnet versions'
+    );
+    t.equal(buildStacksUri({ recipient: mainnet, memo: '' }), `stacks:${mainnet}?memo=`);
+  });
+
+  test('parseStacksUri', t => {
+    t.plan(6);
+    t.deepEqual(parseStacksUri(`stacks:${mainnet}`), { recipient: mainnet });
+    t.deepEqual(
+      parseStacksUri(`stacks:${mainnet}?amount=1.5&memo=thanks%20%26%20100%25%20%E2%98%95`),
+      { recipient: mainnet, amount: '1.5', memo: 'thanks & 100% ☕' }
+    );
+    t.deepEqual(parseStacksUri(`STACKS:${testnet}?network=testnet&token=${testnet}.t`), {
+      recipient: testnet,
+      token: `${testnet}.t`,
+      network: 'testnet',
+    });
+    t.deepEqual(
+      parseStacksUri(`stacks:${mainnet}?label=Shop&amount=2&&x=%zz`),
+      { recipient: mainnet, amount: '2' },
+      'unknown parameters are ignored'
+    );
+    t.deepEqual(parseStacksUri(`stacks:${mainnet}?memo`), { recipient: mainnet, memo: '' });
+
+    const request = { recipient: token, amount: '0.000001', memo: 'a=b&c?d', network: 'mainnet' };
+    t.deepEqual(parseStacksUri(buildStacksUri(request)), request, 'round trip');
+  });
+
+  test('parseStacksUri invalid URIs', t => {
+    const invalid: [string, Function, string][] = [
+      [`bitcoin:${mainnet}`, C32UriError, 'wrong scheme'],
+      [mainnet, C32UriError, 'no scheme'],
+      ['stacks:', C32LengthError, 'no recipient'],
+      [`stacks:${mainnet.slice(0, -1)}8`, C32ChecksumError, 'bad recipient'],
+      [`stacks:${mainnet}.1abc`, C32ContractNameError, 'bad contract name'],
+      [`stacks:${c32address(0, c32addressDecode(mainnet)[1])}`, C32NetworkError, 'no network'],
+      [`stacks:${mainnet}?network=testnet`, C32NetworkError, 'network mismatch'],
+      [`stacks:${testnet}?network=mainnet`, C32NetworkError, 'network mismatch'],
+      [`stacks:${mainnet}?network=nonet`, C32NetworkError, 'unknown network'],
+      [`stacks:${testnet}?token=${token}`, C32NetworkError, 'token network mismatch'],
+      [`stacks:${mainnet}?token=${mainnet}`, C32PrincipalError, 'token not a contract'],
+      [`stacks:${mainnet}?amount=-1`, C32UriError, 'negative amount'],
+      [`stacks:${mainnet}?amount=1e6`, C32UriError, 'exponent'],
+      [`stacks:${mainnet}?amount=.5`, C32UriError, 'no integer part'],
+      [`stacks:${mainnet}?amount=`, C32UriError, 'empty amount'],
+      [`stacks:${mainnet}?amount=1&amount=2`, C32UriError, 'duplicate'],
+      [`stacks:${mainnet}?memo=%E2%98`, C32UriError, 'bad percent-encoding'],
+      [`stacks:${mainnet}?req-fee=1`, C32UriError, 'required parameter'],
+    ];
+    for (const [uri, errorClass, message] of invalid) {
+      t.throws(() => parseStacksUri(uri), errorClass, message);
+    }
+    t.throws(() => buildStacksUri({ recipient: mainnet, amount: 'one' }), C32UriError, 'amount');
+    t.throws(
+      () => buildStacksUri({ recipient: mainnet, network: 'testnet' }),
+      C32NetworkError,
+      'network mismatch'
+    );
+    t.end();
+  });
+
+  test('bitcoinUriToStacksUri', t => {
+    t.plan(5);
+    t.equal(
+      bitcoinUriToStacksUri('bitcoin:1FzTxL9Mxnm2fdmnQEArfhzJHevwbvcH6d'),
+      `stacks:${mainnet}`
+    );
+    t.equal(
+      bitcoinUriToStacksUri(
+        'bitcoin:1FzTxL9Mxnm2fdmnQEArfhzJHevwbvcH6d?amount=0.1&label=Luke&message=Donation%20for%20xyz'
+      ),
+      `stacks:${mainnet}?memo=Donation%20for%20xyz`,
+      'message becomes the memo'
+    );
+    t.equal(
+      bitcoinUriToStacksUri('bitcoin:mvWRFPELmpCHSkFQ7o9EVdCd9eXeUTa9T8', { network: 'testnet' }),
+      `stacks:${testnet}?network=testnet`
+    );
+    t.throws(
+      () => bitcoinUriToStacksUri('bitcoin:1FzTxL9Mxnm2fdmnQEArfhzJHevwbvcH6d?req-x=1'),
+      C32UriError,
+      'required parameter'
+    );
+    t.throws(() => bitcoinUriToStacksUri(`stacks:${mainnet}`), C32UriError, 'wrong scheme');
+  });
+}
+
+// ---------------------------------------------------------------------------
+// accountTests
+// ---------------------------------------------------------------------------
+
+/**
+ * Tests account keys and account equality across address encodings and networks.
+ */
+export function accountTests() {
+  const hash = 'a46ff88886c2ef9762d970b4d2c63678835bd39d';
+  const mainnet = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+  const testnet = 'ST2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKQYAC0RQ';
+  const mainnetP2sh = 'SM2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKQVX8X0G';
+  const bitcoin = '1FzTxL9Mxnm2fdmnQEArfhzJHevwbvcH6d';
+  const bitcoinTestnet = 'mvWRFPELmpCHSkFQ7o9EVdCd9eXeUTa9T8';
+  const bitcoinP2sh = '3GgUssdoWh5QkoUDXKqT6LMESBDf8aqp2y';
+  const segwit = 'bc1q53hl3zyxcthewckewz6d933k0zp4h5ua2x2px3';
+  const segwitTestnet = 'tb1q53hl3zyxcthewckewz6d933k0zp4h5uaqq3jaz';
+
+  test('accountKey', t => {
+    const p2pkh = [mainnet, testnet, bitcoin, bitcoinTestnet, segwit, segwitTestnet];
+    for (const address of p2pkh) {
+      t.equal(accountKey(address), `p2pkh:${hash}`, address);
+    }
+    t.equal(accountKey(`S${mainnet.slice(1).toLowerCase()}`), `p2pkh:${hash}`, 'lowercase c32');
+    t.equal(accountKey(segwit.toUpperCase()), `p2pkh:${hash}`, 'uppercase bech32');
+    t.equal(accountKey(mainnetP2sh), `p2sh:${hash}`);
+    t.equal(accountKey(bitcoinP2sh), `p2sh:${hash}`);
+
+    const accounts = new Map<string, string>();
+    accounts.set(accountKey(mainnet), 'alice');
+    t.equal(accounts.get(accountKey(bitcoinTestnet)), 'alice', 'usable as a Map key');
+    t.end();
+  });
+
+  test('sameAccount', t => {
+    t.plan(12);
+    t.ok(sameAccount(mainnet, bitcoin));
+    t.ok(sameAccount(mainnet, segwit));
+    t.ok(sameAccount(testnet, bitcoinTestnet));
+    t.ok(sameAccount(testnet, segwitTestnet));
+    t.ok(sameAccount(mainnetP2sh, bitcoinP2sh));
+    t.ok(sameAccount(mainnet, mainnet.toLowerCase().replace(/^s/, 'S')));
+    t.notOk(sameAccount(mainnet, testnet), 'different networks');
+    t.notOk(sameAccount(mainnet, bitcoinTestnet), 'different networks');
+    t.ok(sameAccount(mainnet, testnet, { ignoreNetwork: true }));
+    t.ok(sameAccount(bitcoin, segwitTestnet, { ignoreNetwork: true }));
+    t.notOk(sameAccount(mainnet, mainnetP2sh, { ignoreNetwork: true }), 'different hash modes');
+    t.notOk(
+      sameAccount(mainnet, c32address(22, '0000000000000000000000000000000000000000')),
+      'different hash160s'
+    );
+  });
+
+  test('accountKey invalid addresses', t => {
+    t.plan(9);
+    t.throws(() => accountKey(c32address(0, hash)), C32NetworkError, 'unknown c32 version');
+    t.throws(
+      () => accountKey(base58check.encode(hash, '7f')),
+      C32NetworkError,
+      'unknown base58 version'
+    );
+    t.throws(
+      () => accountKey(base58check.encode(`${hash}00`, '00')),
+      C32LengthError,
+      'not a hash160'
+    );
+    t.throws(
+      () => accountKey('bc1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3qccfmv3'),
+      C32UnsupportedAddressError,
+      'p2wsh'
+    );
+    t.throws(() => accountKey(`${segwit.slice(0, -1)}x`), Bech32ChecksumError, 'bad bech32');
+    t.throws(() => accountKey(`${mainnet.slice(0, -1)}8`), C32ChecksumError, 'bad c32');
+    t.throws(() => sameAccount(mainnet, `${bitcoin.slice(0, -1)}e`), Base58ChecksumError);
+    t.throws(() => accountKey(`${mainnet}.my-contract`), C32PrincipalError, 'contract principal');
+    t.throws(() => sameAccount(mainnet, `${mainnet}.my-contract`), C32PrincipalError);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// base58checkTests
+// ---------------------------------------------------------------------------
+
+/**
+ * Tests the base58check codec with 1-, 2- and 4-byte version prefixes and
+ * non-default checksum lengths.
+ */
+export function base58checkTests() {
+  // [base58check string, prefix, data, prefix length]
+  const vectors: [string, string, string, number][] = [
+    // Bitcoin P2PKH address
+    ['16EMaNw3pkn3v6f2BgnSSs53zAKH4Q8YJg', '00', '395f3643cea07ec4eec73b4d9a973dcce56b9bf1', 1],
+    // WIF compressed private key 1
+    ['KwDiBf89QgGbjEhKnhXJuH7LrciVrZi3qYjgd9M7rFU73sVHnoWn', '80', `${'00'.repeat(31)}0101`, 1],
+    // BIP-32 test vector 1 master public key
+    [
+      'xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8',
+      '0488b21e',
+      '000000000000000000' +
+        '873dff81c02f525623fd1fe5167eac3a55a049de3d314bb42ee227ffed37d508' +
+        '0339a36013301597daef41fbe593a02cc513d0b55527ec2df1050e2e8ff49c85c2',
+      4,
+    ],
+  ];
+
+  test('base58check encode and decode', t => {
+    t.plan(vectors.length * 4 + 4);
+
+    for (const [string, prefix, data, prefixLength] of vectors) {
+      t.equal(base58check.encode(data, prefix), string, `encode ${string}`);
+      t.equal(base58check.encode(hexToBytes(data), hexToBytes(prefix)), string, `encode bytes`);
+      const decoded = base58check.decode(string, { prefixLength });
+      t.equal(bytesToHex(decoded.prefix), prefix, `decode prefix ${string}`);
+      t.equal(bytesToHex(decoded.data), data, `decode data ${string}`);
+    }
+
+    // a 2-byte prefix, as in Zcash transparent addresses
+    const hash = '395f3643cea07ec4eec73b4d9a973dcce56b9bf1';
+    const zcash = base58check.encode(hash, '1cb8');
+    t.equal(zcash[0], 't', 'Zcash t-address');
+    t.deepEqual(base58check.decode(zcash, { prefixLength: 2 }), {
+      prefix: hexToBytes('1cb8'),
+      data: hexToBytes(hash),
+    });
+
+    // no prefix
+    t.equal(
+      bytesToHex(base58check.decode(base58check.encode(hash, ''), { prefixLength: 0 }).data),
+      hash
+    );
+    // the prefix length only decides where the prefix ends
+    t.equal(bytesToHex(base58check.decode(vectors[2][0]).prefix), '04');
+  });
+
+  test('base58check checksum length', t => {
+    const hash = '395f3643cea07ec4eec73b4d9a973dcce56b9bf1';
+    t.plan(5);
+
+    const short = base58check.encode(hash, '00', { checksumLength: 2 });
+    t.equal(bytesToHex(base58check.decode(short, { checksumLength: 2 }).data), hash);
+    t.throws(() => base58check.decode(short), Base58ChecksumError, 'wrong checksum length');
+
+    const long = base58check.encode(hash, '00', { checksumLength: 32 });
+    t.equal(bytesToHex(base58check.decode(long, { checksumLength: 32 }).data), hash);
+
+    t.throws(() => base58check.encode(hash, '00', { checksumLength: 0 }), RangeError);
+    t.throws(() => base58check.encode(hash, '00', { checksumLength: 33 }), RangeError);
+  });
+
+  test('base58check invalid input', t => {
+    t.plan(7);
+    t.throws(() => base58check.encode('zz', '00'), C32InvalidHexError, 'non-hex data');
+    t.throws(() => base58check.encode('00', '0x0g'), C32InvalidHexError, 'non-hex prefix');
+    t.throws(() => base58check.encode('000', '00'), C32LengthError, 'odd-length data');
+    t.throws(() => base58check.encode('00', '000'), C32LengthError, 'odd-length prefix');
+    t.throws(() => base58check.decode('1111'), C32LengthError, 'too short');
+    t.throws(
+      () => base58check.decode('16EMaNw3pkn3v6f2BgnSSs53zAKH4Q8YJg', { prefixLength: -1 }),
+      RangeError
+    );
+    t.throws(
+      () => base58check.decode('16EMaNw3pkn3v6f2BgnSSs53zAKH4Q8YJg', { prefixLength: 22 }),
+      C32LengthError,
+      'prefix longer than the string'
+    );
+  });
+}
+
+// ---------------------------------------------------------------------------
+// networkRegistryTests
+// ---------------------------------------------------------------------------
+
+/**
+ * Tests the network registry: the built-in networks, registering additional
+ * networks, and per-call network options on the address conversion functions.
+ */
+export function networkRegistryTests() {
+  const hash160 = 'a46ff88886c2ef9762d970b4d2c63678835bd39d';
+  const testnetB58 = 'mvWRFPELmpCHSkFQ7o9EVdCd9eXeUTa9T8';
+  const mainnetB58 = '1FzTxL9Mxnm2fdmnQEArfhzJHevwbvcH6d';
+
+  test('built-in networks', t => {
+    t.plan(6);
+
+    t.deepEqual(getNetwork('mainnet').versions, { p2pkh: 22, p2sh: 20 });
+    t.deepEqual(getNetwork('testnet').bitcoinVersions, { p2pkh: 111, p2sh: 196 });
+    t.equal(getNetworkByVersion(20)?.network.name, 'mainnet');
+    t.equal(getNetworkByVersion(20)?.type, 'p2sh');
+    t.equal(getNetworkByBitcoinVersion(111)?.network.name, 'testnet');
+    t.equal(getNetworkByVersion(0), undefined, 'unregistered version');
+  });
+
+  test('registerNetwork', t => {
+    t.plan(14);
+
+    // a subnet with its own version numbers, settling on regtest/testnet bitcoin
+    registerNetwork({
+      name: 'subnet',
+      versions: { p2pkh: 1, p2sh: 2 },
+      bitcoinVersions: { p2pkh: 111, p2sh: 196 },
+    });
+    const subnetAddress = c32address(1, hash160);
+
+    t.equal(getNetworkByVersion(1)?.network.name, 'subnet');
+    t.equal(getNetworkByVersion(2)?.type, 'p2sh');
+    t.equal(b58ToC32(testnetB58, -1, { network: 'subnet' }), subnetAddress);
+    t.equal(b58ToC32(testnetB58), c32address(26, hash160), 'earlier networks take precedence');
+    t.equal(c32ToB58(subnetAddress), testnetB58);
+    t.equal(c32ToB58(subnetAddress, -1, { network: 'subnet' }), testnetB58);
+    t.equal(validateStacksAddress(subnetAddress).network, 'subnet');
+    t.ok(validateStacksAddress(subnetAddress, { network: 'subnet' }).valid);
+
+    // a devnet sharing testnet's version numbers is matched when asked for by name
+    registerNetwork({
+      name: 'devnet',
+      versions: { p2pkh: 26, p2sh: 21 },
+      bitcoinVersions: { p2pkh: 111, p2sh: 196 },
+    });
+    const testnetAddress = c32address(26, hash160);
+    t.equal(validateStacksAddress(testnetAddress).network, 'testnet');
+    t.equal(validateStacksAddress(testnetAddress, { network: 'devnet' }).network, 'devnet');
+    t.ok(validateStacksAddress(testnetAddress, { network: 'devnet' }).valid);
+
+    t.throws(
+      () => registerNetwork({ ...getNetwork('subnet') }),
+      C32NetworkError,
+      'duplicate name rejected'
+    );
+
+    unregisterNetwork('subnet');
+    unregisterNetwork('devnet');
+    t.equal(getNetworkByVersion(1), undefined, 'unregistered network forgotten');
+    t.equal(validateStacksAddress(subnetAddress).valid, false);
+  });
+
+  test('invalid networks', t => {
+    const invalids = [
+      () => getNetwork('nope'),
+      () => unregisterNetwork('mainnet'),
+      () => unregisterNetwork('nope'),
+      () =>
+        registerNetwork({
+          name: 'x',
+          versions: { p2pkh: 32, p2sh: 2 },
+          bitcoinVersions: { p2pkh: 0, p2sh: 5 },
+        }),
+      () =>
+        registerNetwork({
+          name: 'x',
+          versions: { p2pkh: 1, p2sh: 2 },
+          bitcoinVersions: { p2pkh: 0, p2sh: 256 },
+        }),
+      () => b58ToC32(mainnetB58, -1, { network: 'testnet' }),
+      () => c32ToB58(c32address(22, hash160), -1, { network: 'testnet' }),
+      () => b58ToC32(mainnetB58, -1, { network: 'nope' }),
+    ];
+    t.plan(invalids.length);
+
+    for (let i = 0; i < invalids.length; i++) {
+      t.throws(invalids[i], C32NetworkError, `invalid network case ${i}`);
+    }
+  });
+}
+
+// ---------------------------------------------------------------------------
+// bech32Tests
+// ---------------------------------------------------------------------------
+
+/**
+ * Tests bech32/bech32m against the BIP-173 and BIP-350 test vectors, and
+ * conversion between SegWit and c32 addresses.
+ */
+export function bech32Tests() {
+  const validBech32 = [
+    'A12UEL5L',
+    'a12uel5l',
+    'an83characterlonghumanreadablepartthatcontainsthenumber1andtheexcludedcharactersbio1tt5tgs',
+    'abcdef1qpzry9x8gf2tvdw0s3jn54khce6mua7lmqqqxw',
+    'split1checkupstagehandshakeupstreamerranterredcaperred2y9e3w',
+    '?1ezyfcl',
+  ];
+
+  const validBech32m = [
+    'A1LQFN3A',
+    'a1lqfn3a',
+    'an83characterlonghumanreadablepartthatcontainsthetheexcludedcharactersbioandnumber11sg7hg6',
+    'abcdef1l7aum6echk45nj3s0wdvt2fg8x9yrzpqzd3ryx',
+    'split1checkupstagehandshakeupstreamerranterredcaperredlc445v',
+    '?1v759aa',
+  ];
+
+  // [address, scriptPubKey]
+  const validSegwit = [
+    ['BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4', '0014751e76e8199196d454941c45d1b3a323f1433bd6'],
+    [
+      'tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7',
+      '00201863143c14c5166804bd19203356da136c985678cd4d27a1b8c6329604903262',
+    ],
+    [
+      'bc1pw508d6qejxtdg4y5r3zarvary0c5xw7kw508d6qejxtdg4y5r3zarvary0c5xw7kt5nd6y',
+      '5128751e76e8199196d454941c45d1b3a323f1433bd6751e76e8199196d454941c45d1b3a323f1433bd6',
+    ],
+    ['BC1SW50QGDZ25J', '6002751e'],
+    ['bc1zw508d6qejxtdg4y5r3zarvaryvaxxpcs', '5210751e76e8199196d454941c45d1b3a323'],
+    [
+      'tb1qqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesrxh6hy',
+      '0020000000c4a5cad46221b2a187905e5266362b99d5e91c6ce24d165dab93e86433',
+    ],
+    [
+      'tb1pqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesf3hn0c',
+      '5120000000c4a5cad46221b2a187905e5266362b99d5e91c6ce24d165dab93e86433',
+    ],
+    [
+      'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0',
+      '512079be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798',
+    ],
+  ];
+
+  // [address, expected error class]
+  const invalidSegwit: [string, Function][] = [
+    // invalid checksum (bech32 instead of bech32m, and vice versa)
+    ['bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqh2y7hd', Bech32FormatError],
+    ['tb1z0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqglt7rf', Bech32FormatError],
+    ['BC1S0XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ54WELL', Bech32FormatError],
+    ['bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kemeawh', Bech32FormatError],
+    ['tb1q0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq24jc47', Bech32FormatError],
+    // invalid character in checksum
+    ['bc1p38j9r5y49hruaue7wxjce0updqjuyyx0kh56v8s25huc6995vvpql3jow4', Bech32InvalidCharacterError],
+    // invalid witness version
+    ['BC130XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ7ZWS8R', Bech32FormatError],
+    // invalid program lengths
+    ['bc1pw5dgrnzv', C32LengthError],
+    [
+      'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7v8n0nx0muaewav253zgeav',
+      C32LengthError,
+    ],
+    ['BC1QR508D6QEJXTDG4Y5R3ZARVARYV98GJ9P', C32LengthError],
+    // mixed case
+    ['tb1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq47Zagq', Bech32FormatError],
+    // zero padding of more than 4 bits, and non-zero padding
+    ['bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7v07qwwzcrf', Bech32FormatError],
+    ['tb1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vpggkg4j', Bech32FormatError],
+    // empty data section
+    ['bc1gmk9yu', Bech32FormatError],
+    // corrupted checksum
+    ['bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t5', Bech32ChecksumError],
+  ];
+
+  test('bech32 and bech32m test vectors', t => {
+    t.plan((validBech32.length + validBech32m.length) * 2);
+
+    for (const [strings, encoding] of [
+      [validBech32, 'bech32'],
+      [validBech32m, 'bech32m'],
+    ] as [string[], bech32.Bech32Encoding][]) {
+      for (const string of strings) {
+        const decoded = bech32.decode(string);
+        t.equal(decoded.encoding, encoding, `${string} is ${encoding}`);
+        t.equal(
+          bech32.encode(decoded.hrp, decoded.words, encoding),
+          string.toLowerCase(),
+          `${string} re-encodes`
+        );
+      }
+    }
+  });
+
+  test('SegWit address test vectors', t => {
+    t.plan(validSegwit.length * 2 + invalidSegwit.length);
+
+    for (const [address, scriptPubKey] of validSegwit) {
+      const decoded = bech32.decodeSegwitAddress(address);
+      const versionOpcode = decoded.witnessVersion === 0 ? 0 : decoded.witnessVersion + 0x50;
+      const script = `${versionOpcode.toString(16).padStart(2, '0')}${decoded.program.length
+        .toString(16)
+        .padStart(2, '0')}${bytesToHex(decoded.program)}`;
+      t.equal(script, scriptPubKey, `decodeSegwitAddress ${address}`);
+      t.equal(
+        bech32.encodeSegwitAddress(decoded.hrp, decoded.witnessVersion, decoded.program),
+        address.toLowerCase(),
+        `encodeSegwitAddress ${address}`
+      );
+    }
+
+    for (const [address, errorClass] of invalidSegwit) {
+      t.throws(() => bech32.decodeSegwitAddress(address), errorClass, `rejects ${address}`);
+    }
+  });
+
+  test('SegWit and c32 address conversion', t => {
+    const hash160 = '751e76e8199196d454941c45d1b3a323f1433bd6';
+    t.plan(16);
+
+    t.deepEqual(parseSegwitAddress('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4'), {
+      network: 'mainnet',
+      type: 'p2wpkh',
+      witnessVersion: 0,
+      program: hash160,
+    });
+    t.equal(parseSegwitAddress(validSegwit[1][0]).type, 'p2wsh');
+    t.equal(parseSegwitAddress(validSegwit[7][0]).type, 'p2tr');
+    t.equal(parseSegwitAddress(validSegwit[3][0]).type, 'witness_unknown');
+
+    const mainnet = segwitToC32('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4');
+    t.equal(mainnet, c32address(22, hash160));
+    // the same hash160 as the legacy P2PKH address
+    t.equal(c32ToB58(mainnet), '1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH');
+    t.equal(c32ToSegwit(mainnet), 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4');
+
+    const testnet = c32address(26, hash160);
+    t.equal(c32ToSegwit(testnet), 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx');
+    t.equal(segwitToC32('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx'), testnet);
+    t.equal(
+      c32ToSegwit(testnet, { network: 'regtest' }),
+      bech32.encodeSegwitAddress('bcrt', 0, hexToBytes(hash160))
+    );
+    t.equal(segwitToC32(c32ToSegwit(testnet, { network: 'regtest' })), testnet);
+    t.equal(segwitToC32('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4', 0), c32address(0, hash160));
+
+    t.throws(() => segwitToC32(validSegwit[7][0]), C32UnsupportedAddressError, 'P2TR rejected');
+    t.throws(() => segwitToC32(validSegwit[1][0]), C32UnsupportedAddressError, 'P2WSH rejected');
+    t.throws(
+      () => c32ToSegwit(c32address(20, hash160)),
+      C32UnsupportedAddressError,
+      'p2sh rejected'
+    );
+    t.throws(
+      () => c32ToSegwit(mainnet, { network: 'testnet' }),
+      C32NetworkError,
+      'network mismatch'
+    );
+  });
+}
+
+// ---------------------------------------------------------------------------
+// publicKeyTests
+// ---------------------------------------------------------------------------
+
+/**
+ * Tests hash160 and address derivation from compressed and uncompressed public keys.
+ */
+export function publicKeyTests() {
+  // the public key of private key 1, i.e. the secp256k1 generator point
+  const compressed = '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798';
+  const uncompressed =
+    '0479be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798' +
+    '483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8';
+  const compressedHash = '751e76e8199196d454941c45d1b3a323f1433bd6';
+  const uncompressedHash = '91b24bf9f5288532960ac687abb035127b1d28a5';
+
+  test('hash160', t => {
+    t.plan(4);
+    t.equal(hash160(compressed), compressedHash);
+    t.equal(hash160(`0x${uncompressed}`), uncompressedHash);
+    t.equal(hash160(hexToBytes(compressed)), compressedHash);
+    t.equal(hash160(''), 'b472a266d0bd89c13706a4132ccfb16f7c3b9fcb');
+  });
+
+  test('publicKeyToAddress', t => {
+    t.plan(9);
+    t.equal(publicKeyToAddress(compressed), c32address(22, compressedHash));
+    t.equal(publicKeyToAddress(hexToBytes(compressed)), c32address(22, compressedHash));
+    t.equal(publicKeyToAddress(uncompressed), c32address(22, uncompressedHash));
+    t.equal(publicKeyToAddress(compressed.toUpperCase()), c32address(22, compressedHash));
+    t.equal(publicKeyToAddress(compressed, { network: 'testnet' }), c32address(26, compressedHash));
+    t.equal(
+      publicKeyToAddress(uncompressed, { compressed: true }),
+      c32address(22, compressedHash),
+      'compresses an uncompressed key'
+    );
+    t.equal(
+      publicKeyToAddress(compressed, { compressed: false }),
+      c32address(22, uncompressedHash),
+      'decompresses a compressed key'
+    );
+    t.equal(
+      publicKeyToAddress(compressed, { compressed: true }),
+      publicKeyToAddress(uncompressed, { compressed: true })
+    );
+    // the same hash160 as the Bitcoin P2PKH address of the key
+    t.equal(c32ToB58(publicKeyToAddress(compressed)), '1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH');
+  });
+
+  test('publicKeyToAddress invalid keys', t => {
+    t.plan(7);
+    t.throws(() => publicKeyToAddress(compressed.slice(0, 64)), C32LengthError, 'too short');
+    t.throws(() => publicKeyToAddress(`${uncompressed}00`), C32LengthError, 'too long');
+    t.throws(() => publicKeyToAddress(`04${compressed.slice(2)}`), C32PublicKeyError, '04 prefix');
+    t.throws(
+      () => publicKeyToAddress(`02${uncompressed.slice(2)}`),
+      C32PublicKeyError,
+      '02 prefix'
+    );
+    t.throws(() => publicKeyToAddress(`05${compressed.slice(2)}`), C32PublicKeyError, '05 prefix');
+    t.throws(() => publicKeyToAddress(`02${'00'.repeat(32)}`), C32PublicKeyError, 'not on curve');
+    t.throws(() => publicKeyToAddress(`${compressed.slice(0, 64)}zz`), C32InvalidHexError, 'hex');
+  });
+}
+
+// ---------------------------------------------------------------------------
+// wifTests
+// ---------------------------------------------------------------------------
+
+/**
+ * Tests WIF private key encoding and decoding, and address derivation from WIF keys.
+ */
+export function wifTests() {
+  const privateKey = '0000000000000000000000000000000000000000000000000000000000000001';
+  const compressedWIF = 'KwDiBf89QgGbjEhKnhXJuH7LrciVrZi3qYjgd9M7rFU73sVHnoWn';
+  const uncompressedWIF = '5HpHagT65TZzG1PH3CSu63k8DbpvD8s5ip4nEB3kEsreAnchuDf';
+  const testnetWIF = 'cMahea7zqjxrtgAbB7LSGbcQUr1uX1ojuat9jZodMN87JcbXMTcA';
+  const testnetUncompressedWIF = '91avARGdfge8E4tZfYLoxeJ5sGBdNJQH4kvjJoQFacbgwmaKkrx';
+
+  test('encodeWIF', t => {
+    t.plan(6);
+    t.equal(encodeWIF(privateKey), compressedWIF);
+    t.equal(encodeWIF(hexToBytes(privateKey)), compressedWIF);
+    t.equal(encodeWIF(`0x${privateKey}`), compressedWIF);
+    t.equal(encodeWIF(privateKey, { compressed: false }), uncompressedWIF);
+    t.equal(encodeWIF(privateKey, { network: 'testnet' }), testnetWIF);
+    t.equal(
+      encodeWIF(privateKey, { network: 'testnet', compressed: false }),
+      testnetUncompressedWIF
+    );
+  });
+
+  test('decodeWIF', t => {
+    t.plan(4);
+    t.deepEqual(decodeWIF(compressedWIF), { privateKey, network: 'mainnet', compressed: true });
+    t.deepEqual(decodeWIF(uncompressedWIF), { privateKey, network: 'mainnet', compressed: false });
+    t.deepEqual(decodeWIF(testnetWIF), { privateKey, network: 'testnet', compressed: true });
+    t.deepEqual(decodeWIF(testnetUncompressedWIF), {
+      privateKey,
+      network: 'testnet',
+      compressed: false,
+    });
+  });
+
+  test('encodeWIF/decodeWIF round trip', t => {
+    // 1, the curve order minus 1, and an arbitrary key
+    const keys = [
+      privateKey,
+      'fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364140',
+      bytesToHex(sha256('c32check')),
+    ];
+    for (const key of keys) {
+      for (const network of ['mainnet', 'testnet'] as const) {
+        for (const compressed of [true, false]) {
+          const wif = encodeWIF(key, { network, compressed });
+          t.deepEqual(decodeWIF(wif), { privateKey: key, network, compressed });
+        }
+      }
+    }
+    t.end();
+  });
+
+  test('wifToAddresses', t => {
+    t.plan(3);
+    t.deepEqual(wifToAddresses(compressedWIF), {
+      network: 'mainnet',
+      publicKey: '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798',
+      bitcoinAddress: '1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH',
+      stacksAddress: c32address(22, '751e76e8199196d454941c45d1b3a323f1433bd6'),
+    });
+    const uncompressed = wifToAddresses(uncompressedWIF);
+    t.deepEqual(
+      [uncompressed.bitcoinAddress, uncompressed.stacksAddress],
+      ['1EHNa6Q4Jz2uvNExL497mE43ikXhwF6kZm', publicKeyToAddress(uncompressed.publicKey)]
+    );
+    const testnet = wifToAddresses(testnetWIF);
+    t.deepEqual(
+      [testnet.bitcoinAddress, testnet.stacksAddress],
+      [
+        c32ToB58(c32address(26, '751e76e8199196d454941c45d1b3a323f1433bd6')),
+        c32address(26, '751e76e8199196d454941c45d1b3a323f1433bd6'),
+      ]
+    );
+  });
+
+  test('invalid WIF keys', t => {
+    t.plan(10);
+    const order = 'fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141';
+    t.throws(() => encodeWIF('00'.repeat(32)), C32PrivateKeyError, 'zero key');
+    t.throws(() => encodeWIF(order), C32PrivateKeyError, 'key equal to the curve order');
+    t.throws(() => encodeWIF(privateKey.slice(2)), C32LengthError, 'short key');
+    t.throws(() => encodeWIF(`${privateKey.slice(0, 62)}zz`), C32InvalidHexError, 'hex');
+    t.throws(
+      () => encodeWIF(privateKey, { network: 'regtest' as 'testnet' }),
+      C32NetworkError,
+      'unknown network'
+    );
+    t.throws(
+      () => decodeWIF(base58check.encode(`${privateKey}02`, '80')),
+      C32PrivateKeyError,
+      'bad compression flag'
+    );
+    t.throws(() => decodeWIF(base58check.encode(privateKey, '81')), C32NetworkError, 'bad version');
+    t.throws(
+      () => decodeWIF(base58check.encode(`${privateKey}0101`, '80')),
+      C32LengthError,
+      'too long'
+    );
+    t.throws(
+      () => decodeWIF(base58check.encode(`${'00'.repeat(32)}01`, '80')),
+      C32PrivateKeyError,
+      'zero key'
+    );
+    t.throws(
+      () => decodeWIF(`${compressedWIF.slice(0, -1)}o`),
+      Base58ChecksumError,
+      'bad checksum'
+    );
+  });
+}
+
+// ---------------------------------------------------------------------------
+// multisigTests
+// ---------------------------------------------------------------------------
+
+/**
+ * Tests multisig script construction and decoding, and address derivation
+ * for each multisig hash mode.
+ */
+export function multisigTests() {
+  // the compressed public keys of private keys 1, 2 and 3
+  const keys = [
+    '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798',
+    '02c6047f9441ed7d6d3045406e95c07cd85c778e4b8cef3ca7abac09b95c709ee5',
+    '02f9308a019258c31049344f85f89d5229b531c845836f99b08601f113bce036f9',
+  ];
+  // OP_2 <key 1> <key 2> <key 3> OP_3 OP_CHECKMULTISIG
+  const script = `52${keys.map(key => `21${key}`).join('')}53ae`;
+
+  test('multisigScript and decodeMultisigScript', t => {
+    t.plan(5);
+    t.equal(multisigScript(keys, 2), script);
+    t.equal(
+      multisigScript(
+        keys.map(key => hexToBytes(key)),
+        2
+      ),
+      script
+    );
+    t.deepEqual(decodeMultisigScript(script), { threshold: 2, publicKeys: keys });
+    t.deepEqual(decodeMultisigScript(hexToBytes(script)), { threshold: 2, publicKeys: keys });
+
+    const uncompressed =
+      '0479be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798' +
+      '483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8';
+    t.deepEqual(decodeMultisigScript(multisigScript([uncompressed], 1)), {
+      threshold: 1,
+      publicKeys: [uncompressed],
+    });
+  });
+
+  test('multisigAddress', t => {
+    t.plan(9);
+
+    // bitcore-lib's 2-of-3 vectors (test/address.js), with the keys in the
+    // sorted order bitcore-lib puts them in
+    const signers = [
+      '0272073bf0287c4469a2a011567361d42529cd1a72ab0d86aa104ecc89342ffeb0',
+      '02738a516a78355db138e8119e58934864ce222c553a5407cf92b9c1527e03c1a2',
+      '02da5798ed0c055e31339eb9b5cef0d3c0ccdec84a62e2e255eb5c006d4f3e7f5b',
+    ];
+    const p2sh = b58ToC32('3FtqPRirhPvrf7mVUSkygyZ5UuoAYrTW3y');
+    t.equal(multisigAddress(signers, 2), p2sh);
+    t.equal(multisigAddress(signers, 2, { hashMode: 'p2sh' }), p2sh);
+    t.equal(multisigAddress(signers, 2, { hashMode: 'p2sh-non-sequential' }), p2sh);
+    t.equal(
+      c32ToB58(multisigAddress(signers, 2, { network: 'testnet' })),
+      '2N7T3TAetJrSCruQ39aNrJvYLhG1LJosujf'
+    );
+
+    const p2wsh = b58ToC32('3PpK1bBqUmPK3Q6QPSUK7BQSZ1DMWL6aes');
+    t.equal(multisigAddress(signers, 2, { hashMode: 'p2wsh-p2sh' }), p2wsh);
+    t.equal(multisigAddress(signers, 2, { hashMode: 'p2wsh-p2sh-non-sequential' }), p2wsh);
+
+    // BIP-49 test vector
+    const p2wpkh = multisigAddress(
+      ['03a1af804ac108a8a51782198c2d034b28bf90c8803f5a53f76276fa69a4eae77f'],
+      1,
+      { hashMode: 'p2wpkh-p2sh', network: 'testnet' }
+    );
+    t.equal(c32ToB58(p2wpkh), '2Mww8dCYPUpKHofjgcXcBCEGmniw9CoaiD2');
+
+    // a signer set checks out against the address it derives
+    const decoded = decodeMultisigScript(multisigScript(signers, 2));
+    t.equal(multisigAddress(decoded.publicKeys, decoded.threshold), p2sh);
+    t.notEqual(multisigAddress(signers.slice().reverse(), 2), p2sh, 'key order matters');
+  });
+
+  test('multisig invalid input', t => {
+    const uncompressed = `04${'00'.repeat(64)}`;
+    t.plan(10);
+    t.throws(() => multisigAddress(keys, 0), C32MultisigError, 'zero threshold');
+    t.throws(() => multisigAddress(keys, 4), C32MultisigError, 'threshold above key count');
+    t.throws(() => multisigAddress([], 1), C32MultisigError, 'no keys');
+    t.throws(
+      () => multisigAddress(Array<string>(16).fill(keys[0]), 1),
+      C32MultisigError,
+      '16 keys'
+    );
+    t.throws(() => multisigAddress([keys[0].slice(2)], 1), C32LengthError, 'short key');
+    t.throws(
+      () => multisigAddress(keys, 1, { hashMode: 'p2wpkh-p2sh' }),
+      C32MultisigError,
+      'p2wpkh-p2sh with several keys'
+    );
+    t.throws(
+      () => multisigAddress([uncompressed], 1, { hashMode: 'p2wsh-p2sh' }),
+      C32MultisigError,
+      'uncompressed key in a witness hash mode'
+    );
+    t.throws(() => decodeMultisigScript(script.slice(0, -2)), C32MultisigError, 'truncated');
+    t.throws(
+      () => decodeMultisigScript(`52${script.slice(2)}`.replace(/53ae$/, '52ae')),
+      C32MultisigError,
+      'wrong key count'
+    );
+    t.throws(
+      () => decodeMultisigScript(`54${script.slice(2)}`),
+      C32MultisigError,
+      'threshold 4 of 3'
+    );
+  });
+}
+
+// ---------------------------------------------------------------------------
+// batchTests
+// ---------------------------------------------------------------------------
+
+/**
+ * Tests batch conversion, where invalid inputs yield error results instead of throwing,
+ * and the streaming equivalent.
+ */
+export function batchTests() {
+  const b58addr = '16EMaNw3pkn3v6f2BgnSSs53zAKH4Q8YJg';
+  const c32addr = 'SPWNYDJ3STG7XH7ERWXMV6MQ7Q6EATWVY5Q1QMP8';
+  const invalid = 'SPWNYDJ3STG7XH7ERWXMV6MQ7Q6EATWVY5Q1QMP9';
+
+  // write chunks to a stream and collect everything it outputs
+  const runStream = (stream: ReturnType<typeof createConvertStream>, chunks: unknown[]) =>
+    new Promise<unknown[]>((resolve, reject) => {
+      const output: unknown[] = [];
+      stream.on('data', data => output.push(data));
+      stream.on('end', () => resolve(output));
+      stream.on('error', reject);
+      for (const chunk of chunks) {
+        stream.write(chunk);
+      }
+      stream.end();
+    });
+
+  test('convertMany', t => {
+    t.plan(11);
+
+    const results = convertMany([c32addr, invalid, 'not an address'], 'c32ToB58');
+    t.equal(results.length, 3);
+    t.deepEqual(results[0], { ok: true, input: c32addr, value: b58addr });
+    t.equal(results[1].ok, false);
+    t.ok(!results[1].ok && results[1].error instanceof C32ChecksumError, 'checksum error');
+    t.equal(results[1].input, invalid);
+    t.ok(!results[2].ok && results[2].error instanceof C32Error, 'c32 error');
+
+    t.deepEqual(convertMany([b58addr], 'b58ToC32'), [{ ok: true, input: b58addr, value: c32addr }]);
+    t.deepEqual(convertMany(new Set([c32addr]), 'c32addressDecode'), [
+      { ok: true, input: c32addr, value: c32addressDecode(c32addr) },
+    ]);
+    t.equal(convertMany([b58addr, `${b58addr}x`], 'b58ToC32')[1].ok, false);
+    t.deepEqual(convertMany([], 'c32ToB58'), []);
+    // @ts-expect-error unknown operation
+    t.throws(() => convertMany([c32addr], 'c32encode'), TypeError);
+  });
+
+  test('createConvertStream', async t => {
+    // lines split across chunks, with blank lines and CRLF line endings
+    const text = `${c32addr}\r\n\n${invalid}\n${c32addr}`;
+    const chunks = [text.slice(0, 10), text.slice(10, 45), text.slice(45)];
+    const output = (await runStream(createConvertStream('c32ToB58'), chunks)).join('');
+    const lines = output
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line) as unknown);
+
+    t.equal(output[output.length - 1], '\n', 'output ends with a newline');
+    t.equal(lines.length, 3, 'one line per non-blank input line');
+    t.deepEqual(lines[0], { ok: true, input: c32addr, value: b58addr });
+    t.deepEqual(lines[1], {
+      ok: false,
+      input: invalid,
+      error: { code: 'CHECKSUM_MISMATCH', message: 'Invalid c32check string: checksum mismatch' },
+    });
+    t.deepEqual(lines[2], lines[0]);
+
+    const objects = await runStream(createConvertStream('b58ToC32', { objectMode: true }), [
+      b58addr,
+      'invalid',
+    ]);
+    t.equal(objects.length, 2);
+    t.deepEqual(objects[0], { ok: true, input: b58addr, value: c32addr });
+    t.equal((objects[1] as { ok: boolean }).ok, false);
+
+    t.deepEqual(await runStream(createConvertStream('c32ToB58'), []), []);
+    t.end();
+  });
+}
+
+// ---------------------------------------------------------------------------
+// cliTests
+// ---------------------------------------------------------------------------
+
+/**
+ * Tests the c32check command-line tool, with arguments and with standard input.
+ */
+export function cliTests() {
+  const address = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+  const hash160 = 'a46ff88886c2ef9762d970b4d2c63678835bd39d';
+
+  // run the tool, feeding `stdin` (if given) to it, and capture its output
+  const run = async (argv: string[], stdin?: string) => {
+    const input = new PassThrough() as PassThrough & { isTTY?: boolean };
+    if (stdin === undefined) {
+      input.isTTY = true;
+    } else {
+      input.end(stdin);
+    }
+    let stdout = '';
+    let stderr = '';
+    const status = await runCli(argv, {
+      stdin: input,
+      stdout: { write: (text: string) => (stdout += text) },
+      stderr: { write: (text: string) => (stderr += text) },
+    });
+    return { status, stdout, stderr };
+  };
+
+  test('cli commands', async t => {
+    const cases: [string[], string][] = [
+      [['encode', '68656c6c6f20776f726c64'], '38CNP6RVS0EXQQ4V34'],
+      [['decode', '38CNP6RVS0EXQQ4V34'], '68656c6c6f20776f726c64'],
+      [
+        ['check-encode', '--addr-version', '12', '68656c6c6f20776f726c64'],
+        'CD1JPRV3F41VPYWKCCGRMASC8',
+      ],
+      [['check-decode', 'CD1JPRV3F41VPYWKCCGRMASC8'], '12 68656c6c6f20776f726c64'],
+      [['address', '--addr-version=22', hash160], address],
+      [['address-decode', address], `22 ${hash160}`],
+      [
+        ['b58-to-c32', '16EMaNw3pkn3v6f2BgnSSs53zAKH4Q8YJg'],
+        'SPWNYDJ3STG7XH7ERWXMV6MQ7Q6EATWVY5Q1QMP8',
+      ],
+      [
+        ['c32-to-b58', 'SPWNYDJ3STG7XH7ERWXMV6MQ7Q6EATWVY5Q1QMP8'],
+        '16EMaNw3pkn3v6f2BgnSSs53zAKH4Q8YJg',
+      ],
+      [['c32-to-b58', '--addr-version', '5', address], c32ToB58(address, 5)],
+    ];
+
+    for (const [argv, expected] of cases) {
+      const { status, stdout, stderr } = await run(argv);
+      t.equal(stdout, `${expected}\n`, argv.join(' '));
+      t.equal(status, 0, `${argv.join(' ')}: exit status`);
+      t.equal(stderr, '', `${argv.join(' ')}: no errors`);
+    }
+    t.end();
+  });
+
+  test('cli inputs and output formats', async t => {
+    let result = await run(['address-decode', address, address]);
+    t.equal(result.stdout, `22 ${hash160}\n22 ${hash160}\n`, 'several arguments');
+
+    result = await run(['address-decode'], `${address}\n\n  ${address}  \r\n`);
+    t.equal(result.stdout, `22 ${hash160}\n22 ${hash160}\n`, 'standard input');
+    t.equal(result.status, 0);
+
+    result = await run(['address-decode', '--json', address]);
+    t.deepEqual(JSON.parse(result.stdout), { ok: true, input: address, value: [22, hash160] });
+
+    result = await run(['--json', 'c32-to-b58'], `${address.slice(0, -1)}8\n${address}\n`);
+    const lines = result.stdout
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line) as { ok: boolean; error?: { code: string } });
+    t.equal(lines.length, 2, 'one JSON line per input');
+    t.equal(lines[0].error?.code, 'CHECKSUM_MISMATCH');
+    t.equal(lines[1].ok, true);
+    t.equal(result.status, 1, 'non-zero exit status on invalid input');
+    t.end();
+  });
+
+  test('cli errors', async t => {
+    let result = await run(['decode', 'I-am-not-c32', '38CNP6RVS0EXQQ4V34']);
+    t.equal(result.status, 1);
+    t.equal(result.stdout, '68656c6c6f20776f726c64\n', 'valid inputs are still converted');
+    t.equal(result.stderr, 'c32check: I-am-not-c32: Not a c32-encoded string\n');
+
+    const usageErrors = [
+      [],
+      ['frobnicate', address],
+      ['address', hash160],
+      ['address', '--addr-version', 'P', hash160],
+      ['address', '--addr-version'],
+      ['decode', '--addr-version', '1', 'AB'],
+      ['address', '--version=22', hash160],
+      ['decode', '--verbose', 'AB'],
+      ['decode'],
+    ];
+    for (const argv of usageErrors) {
+      result = await run(argv);
+      t.equal(result.status, 2, `usage error: ${argv.join(' ')}`);
+      t.ok(result.stderr.includes('Usage: c32check'), `prints usage: ${argv.join(' ')}`);
+    }
+
+    result = await run(['--help']);
+    t.equal(result.status, 0);
+    t.ok(result.stdout.includes('address-decode <address>'));
+    t.ok(result.stdout.includes('address --addr-version <n> <hash160>'));
+
+    result = await run(['--version']);
+    t.equal(result.status, 0);
+    t.ok(/^\d+\.\d+\.\d+\S*\n$/.test(result.stdout), 'prints the package version');
+    t.equal((await run(['address', '--version', hash160])).status, 0, 'even after a command');
+    t.end();
+  });
+}
+
+// ---------------------------------------------------------------------------
+// suggestCorrectionsTests
+// ---------------------------------------------------------------------------
+
+/**
+ * Tests typo correction: every single edit of a valid address should lead back to it,
+ * ranked by the kind of edit.
+ */
+export function suggestCorrectionsTests() {
+  const address = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+
+  // [mistyped address, expected edit, expected index]
+  const typos: [string, string, number][] = [
+    ['SP2J6ZY48GV1EZSV2V5RB9MP66SW86PYKKNRV9EJ7', 'confusion', 14], // 5 -> S
+    ['SP2J6ZY4BGV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7', 'confusion', 8], // 8 -> B
+    ['SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9JE7', 'transposition', 38],
+    ['SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ8', 'substitution', 40],
+    ['SP2J6ZY48GV1EZ5V2V5RB9MP66SW6PYKKNRV9EJ7', 'insertion', 29], // missing 8
+    ['SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRVV9EJ7', 'deletion', 37], // extra V
+  ];
+
+  test('suggestCorrections', t => {
+    t.plan(typos.length * 3 + 2);
+
+    for (const [typo, edit, index] of typos) {
+      const suggestions = suggestCorrections(typo);
+      t.equal(suggestions[0].address, address, `suggestCorrections ${typo}: address`);
+      t.equal(suggestions[0].edit, edit, `suggestCorrections ${typo}: edit`);
+      t.ok(
+        // an insertion or deletion in a run of equal characters can apply at several indexes
+        suggestions[0].index === index || suggestions[0].index === index - 1,
+        `suggestCorrections ${typo}: index`
+      );
+    }
+
+    t.deepEqual(suggestCorrections(address), [], 'valid address has no corrections');
+    t.deepEqual(
+      suggestCorrections(address.toLowerCase().replace(/1/g, 'l')),
+      [],
+      'normalizable address has no corrections'
+    );
+  });
+}
+
+// ---------------------------------------------------------------------------
+// principalTests
+// ---------------------------------------------------------------------------
+
+/**
+ * Tests standard and contract principal parsing and construction.
+ */
+export function principalTests() {
+  const address = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+  const hash160 = 'a46ff88886c2ef9762d970b4d2c63678835bd39d';
+
+  const validNames = ['my-contract', 'a', 'A_b-C9', 'pox-4', 'x'.repeat(40), 'x'.repeat(128)];
+  const invalidNames = [
+    '',
+    '1contract',
+    '-contract',
+    'my.contract',
+    'my contract',
+    'x'.repeat(129),
+  ];
+
+  test('contract names', t => {
+    t.plan(validNames.length + invalidNames.length * 2);
+
+    for (const name of validNames) {
+      t.ok(isValidContractName(name), `valid contract name ${name}`);
+    }
+    for (const name of invalidNames) {
+      t.notOk(isValidContractName(name), `invalid contract name ${name}`);
+      t.throws(() => contractPrincipal(22, hash160, name), C32ContractNameError);
+    }
+  });
+
+  test('contractPrincipal and parseContractPrincipal', t => {
+    t.plan(3);
+
+    const principal = contractPrincipal(22, hash160, 'my-contract');
+    t.equal(principal, `${address}.my-contract`);
+    t.deepEqual(parseContractPrincipal(principal), {
+      type: 'contract',
+      address,
+      version: 22,
+      hash160,
+      contractName: 'my-contract',
+    });
+    t.deepEqual(parsePrincipal(principal), parseContractPrincipal(principal));
+  });
+
+  test('parsePrincipal', t => {
+    t.plan(2);
+
+    t.deepEqual(parsePrincipal(address), { type: 'standard', address, version: 22, hash160 });
+    t.equal(parsePrincipal(`${address}.a-b`).type, 'contract');
+  });
+
+  test('parseContractPrincipal contract name lengths', t => {
+    t.plan(3);
+
+    const name = 'x'.repeat(128);
+    t.equal(parseContractPrincipal(`${address}.${name}`).contractName, name, '128 characters');
+    t.equal(parseContractPrincipal(`${address}.${'x'.repeat(41)}`).contractName.length, 41);
+    t.throws(
+      () => parseContractPrincipal(`${address}.${name}x`),
+      C32ContractNameError,
+      '129 characters'
+    );
+  });
+
+  test('invalid principals', t => {
+    const invalids: [string, Function][] = [
+      [address, C32PrincipalError],
+      [`${address}.`, C32ContractNameError],
+      [`${address}.1abc`, C32ContractNameError],
+      [`${address}.a.b`, C32ContractNameError],
+      [`${address.slice(0, -1)}8.my-contract`, C32ChecksumError],
+    ];
+    t.plan(invalids.length + 2);
+
+    for (const [principal, errorClass] of invalids) {
+      t.throws(() => parseContractPrincipal(principal), errorClass, `rejects ${principal}`);
+    }
+    t.throws(() => parsePrincipal(`${address}.`), C32ContractNameError);
+    t.throws(
+      () => parsePrincipal(`${address.toLowerCase().replace('s', 'S')}.abc`, { strict: true }),
+      C32InvalidCharacterError
+    );
+  });
+
+  test('serializePrincipal and deserializePrincipal', t => {
+    // 0x06, version 22, hash160, then 'my-contract' prefixed by its length (11)
+    const standard = `0516${hash160}`;
+    const contract = `0616${hash160}0b6d792d636f6e7472616374`;
+    t.plan(11);
+
+    t.equal(serializePrincipal(address), standard);
+    t.equal(serializePrincipal(`${address}.my-contract`), contract);
+    t.deepEqual(serializePrincipalBytes(address), hexToBytes(standard));
+    t.equal(deserializePrincipal(standard), address);
+    t.equal(deserializePrincipal(`0x${contract}`), `${address}.my-contract`);
+    t.equal(deserializePrincipal(hexToBytes(contract)), `${address}.my-contract`);
+
+    const testnet = c32address(26, hash160);
+    t.equal(serializePrincipal(testnet), `051a${hash160}`);
+    t.equal(deserializePrincipal(`051a${hash160}`), testnet);
+
+    // names longer than 40 characters cannot be deployed, but are valid in principals
+    for (const length of [40, 41, 128]) {
+      const longName = `${address}.${'x'.repeat(length)}`;
+      t.equal(deserializePrincipal(serializePrincipal(longName)), longName, `${length} characters`);
+    }
+  });
+
+  test('deserializePrincipal invalid input', t => {
+    const invalids: [string, Function][] = [
+      ['', C32PrincipalError],
+      [`0716${hash160}`, C32PrincipalError],
+      [`0516${hash160}00`, C32LengthError], // trailing byte
+      [`0516${hash160.slice(2)}`, C32LengthError], // short hash
+      [`0616${hash160}`, C32LengthError], // missing name length
+      [`0616${hash160}0b6d792d636f6e74726163`, C32LengthError], // truncated name
+      [`0616${hash160}00`, C32ContractNameError], // empty name
+      [`0616${hash160}0431616263`, C32ContractNameError], // '1abc'
+      [`0616${hash160}81${'78'.repeat(129)}`, C32ContractNameError], // 129 characters
+      [`0520${hash160}`, C32VersionError], // version 32
+      [`0516${hash160}0`, C32LengthError],
+    ];
+    t.plan(invalids.length + 1);
+
+    for (const [serialized, errorClass] of invalids) {
+      t.throws(() => deserializePrincipal(serialized), errorClass, `rejects ${serialized}`);
+    }
+    t.throws(() => serializePrincipal(`${address}.1abc`), C32ContractNameError);
+  });
+
+  test('toNetwork', t => {
+    const testnet = 'ST2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKQYAC0RQ';
+    const mainnetP2sh = 'SM2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKQVX8X0G';
+    const testnetP2sh = 'SN2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKP6D2ZK9';
+    const conversions: [string, string, string][] = [
+      [address, 'testnet', testnet],
+      [testnet, 'mainnet', address],
+      [mainnetP2sh, 'testnet', testnetP2sh],
+      [testnetP2sh, 'mainnet', mainnetP2sh],
+      [address, 'mainnet', address],
+      [testnet, 'regtest', testnet],
+      [`S${address.slice(1).toLowerCase()}`, 'testnet', testnet],
+      [`${address}.my-contract`, 'testnet', `${testnet}.my-contract`],
+      [`${testnetP2sh}.pox-4`, 'mainnet', `${mainnetP2sh}.pox-4`],
+    ];
+    for (const [input, network, expected] of conversions) {
+      t.equal(toNetwork(input, network), expected, `${input} to ${network}`);
+      t.deepEqual(parsePrincipal(toNetwork(input, network)).hash160, parsePrincipal(input).hash160);
+    }
+    t.end();
+  });
+
+  test('toNetwork invalid input', t => {
+    t.plan(5);
+    t.throws(
+      () => toNetwork(c32address(0, hash160), 'mainnet'),
+      C32NetworkError,
+      'unknown version'
+    );
+    t.throws(
+      () => toNetwork(c32address(31, hash160), 'testnet'),
+      C32NetworkError,
+      'unknown version'
+    );
+    t.throws(() => toNetwork(address, 'nonet'), C32NetworkError, 'unknown network');
+    t.throws(() => toNetwork(`${address.slice(0, -1)}8`, 'testnet'), C32ChecksumError);
+    t.throws(() => toNetwork(`${address}.1abc`, 'testnet'), C32ContractNameError);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// brandedTypeTests
+// ---------------------------------------------------------------------------
+
+/**
+ * Tests the branded address and hash types and their type guards.
+ */
+export function brandedTypeTests() {
+  const hash = 'a46ff88886c2ef9762d970b4d2c63678835bd39d';
+  const address = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+
+  test('branded return types', t => {
+    t.plan(5);
+    const c32checkString: C32CheckString = c32checkEncode(22, hash);
+    const c32Address: C32Address = c32address(22, hash);
+    const principal: ContractPrincipal = contractPrincipal(22, hash, 'my-contract');
+    const b58Address: B58Address = c32ToB58(c32Address);
+    const hash160Hex: Hash160Hex = c32addressDecode(c32Address)[1];
+    // branded values are still strings
+    const plain: string[] = [c32checkString, c32Address, principal, b58Address, hash160Hex];
+    t.deepEqual(plain, [
+      address.slice(1),
+      address,
+      `${address}.my-contract`,
+      '1FzTxL9Mxnm2fdmnQEArfhzJHevwbvcH6d',
+      hash,
+    ]);
+    t.equal(b58ToC32(b58Address), c32Address);
+
+    // @ts-expect-error plain strings are not c32 addresses
+    const unchecked: C32Address = address;
+    t.equal(unchecked, address);
+
+    const input: string = address;
+    if (isC32Address(input)) {
+      const checked: C32Address = input;
+      t.equal(checked, address);
+    }
+    const principalInput: string = `${address}.my-contract`;
+    if (isContractPrincipal(principalInput)) {
+      const checked: ContractPrincipal = principalInput;
+      t.equal(checked.split('.')[1], 'my-contract');
+    }
+  });
+
+  test('type guards', t => {
+    t.plan(25);
+    t.ok(isC32CheckString(address.slice(1)));
+    t.ok(isC32CheckString(c32checkEncode(1, '')), 'empty payload');
+    t.notOk(isC32CheckString(address.slice(1).toLowerCase()), 'lowercase');
+    t.notOk(isC32CheckString(`${address.slice(1, -1)}8`), 'bad checksum');
+    t.notOk(isC32CheckString(42));
+
+    t.ok(isC32Address(address));
+    t.notOk(isC32Address(`S${address.slice(1).toLowerCase()}`), 'lowercase');
+    t.notOk(isC32Address(address.replace('1', 'I')), 'I for 1');
+    t.notOk(isC32Address(address.slice(1)), 'no S');
+    t.notOk(isC32Address(`${address.slice(0, -1)}8`), 'bad checksum');
+    t.notOk(isC32Address(`S${c32checkEncode(22, '')}`), 'empty payload');
+    t.notOk(isC32Address(`${address}.my-contract`), 'contract principal');
+    t.notOk(isC32Address(undefined));
+
+    t.ok(isContractPrincipal(`${address}.my-contract`));
+    t.notOk(isContractPrincipal(address), 'standard principal');
+    t.notOk(isContractPrincipal(`${address}.1abc`), 'bad contract name');
+    t.notOk(isContractPrincipal(`S${address.slice(1).toLowerCase()}.my-contract`), 'lowercase');
+
+    t.ok(isB58Address('1FzTxL9Mxnm2fdmnQEArfhzJHevwbvcH6d'));
+    t.notOk(isB58Address('1FzTxL9Mxnm2fdmnQEArfhzJHevwbvcH6e'), 'bad checksum');
+    t.notOk(isB58Address(base58check.encode(`${hash}00`)), 'not a hash160');
+    t.notOk(isB58Address(address));
+
+    t.ok(isHash160Hex(hash));
+    t.notOk(isHash160Hex(hash.toUpperCase()), 'uppercase');
+    t.notOk(isHash160Hex(`${hash}00`), 'too long');
+    t.notOk(isHash160Hex(null));
+  });
+}
+
+// ---------------------------------------------------------------------------
+// c32errorTests
+// ---------------------------------------------------------------------------
+
+/**
+ * Tests that failures are thrown as typed errors carrying a stable `code`,
+ * the offending input and, for character errors, the index of the first bad character.
+ */
+export function c32errorTests() {
+  /**
+   * Call `fn`, expecting it to throw, and return the thrown error.
+   */
+  function catchError(fn: () => unknown): unknown {
+    try {
+      fn();
+    } catch (e) {
+      return e;
+    }
+    return undefined;
+  }
+
+  test('invalid characters', t => {
+    t.plan(15);
+
+    let e = catchError(() => c32decode('38CNP6RVS0EXQQ4V3U'));
+    t.ok(e instanceof C32InvalidCharacterError, 'c32decode throws C32InvalidCharacterError');
+    t.ok(e instanceof C32Error, 'C32InvalidCharacterError is a C32Error');
+    t.ok(e instanceof Error, 'C32InvalidCharacterError is an Error');
+    t.equal((e as C32InvalidCharacterError).code, 'INVALID_CHARACTER');
+    t.equal((e as C32InvalidCharacterError).index, 17);
+    t.equal((e as C32InvalidCharacterError).input, '38CNP6RVS0EXQQ4V3U');
+
+    // positions are relative to the full c32check string, including the version character
+    e = catchError(() => c32checkDecode('CD1JPRV3F41VPYWKCCGRMAS!8'));
+    t.ok(e instanceof C32InvalidCharacterError, 'c32checkDecode throws C32InvalidCharacterError');
+    t.equal((e as C32InvalidCharacterError).index, 23);
+
+    e = catchError(() => c32checkDecode('UD1JPRV3F41VPYWKCCGRMASC8'));
+    t.equal((e as C32InvalidCharacterError).index, 0, 'invalid version character');
+
+    // ... and relative to the full address, including the 'S' prefix
+    e = catchError(() => c32addressDecode('SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJU'));
+    t.ok(e instanceof C32InvalidCharacterError, 'c32addressDecode throws C32InvalidCharacterError');
+    t.equal((e as C32InvalidCharacterError).index, 40);
+    t.equal((e as C32InvalidCharacterError).input, 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJU');
+
+    e = catchError(() => c32addressDecode('XP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7'));
+    t.equal((e as C32InvalidCharacterError).index, 0, 'missing "S" prefix');
+
+    e = catchError(() => c32decode('38cnp6rvs0exqq4v34', undefined, { strict: true }));
+    t.ok(e instanceof C32InvalidCharacterError, 'strict c32decode throws C32InvalidCharacterError');
+    t.equal((e as C32InvalidCharacterError).index, 2, 'first non-canonical character');
+  });
+
+  test('invalid hex', t => {
+    t.plan(6);
+
+    let e = catchError(() => c32encode('abcdefg'));
+    t.ok(e instanceof C32InvalidHexError, 'c32encode throws C32InvalidHexError');
+    t.equal((e as C32InvalidHexError).code, 'INVALID_HEX');
+    t.equal((e as C32InvalidHexError).index, 6);
+
+    e = catchError(() => c32checkEncode(22, '0xabz'));
+    t.ok(e instanceof C32InvalidHexError, 'c32checkEncode throws C32InvalidHexError');
+    t.equal((e as C32InvalidHexError).index, 4, 'index counts the 0x prefix');
+
+    e = catchError(() => c32address(22, 'a46ff88886c2ef9762d970b4d2c63678835bd39x'));
+    t.ok(e instanceof C32InvalidHexError, 'c32address throws C32InvalidHexError');
+  });
+
+  test('invalid lengths, versions and checksums', t => {
+    t.plan(11);
+
+    let e = catchError(() => c32address(22, 'a46ff88886c2ef9762d970b4d2c63678835bd3'));
+    t.ok(e instanceof C32LengthError, 'c32address throws C32LengthError');
+    t.equal((e as C32LengthError).code, 'INVALID_LENGTH');
+
+    e = catchError(() => c32addressDecode('ST2J'));
+    t.ok(e instanceof C32LengthError, 'c32addressDecode throws C32LengthError');
+
+    e = catchError(() => c32checkEncode(32, 'abcdef'));
+    t.ok(e instanceof C32VersionError, 'c32checkEncode throws C32VersionError');
+    t.equal((e as C32VersionError).code, 'INVALID_VERSION');
+    t.equal((e as C32VersionError).input, 32);
+
+    e = catchError(() => c32checkDecode('CD1JPRV3F41VPYWKCCGRMASC9'));
+    t.ok(e instanceof C32ChecksumError, 'c32checkDecode throws C32ChecksumError');
+    t.equal((e as C32ChecksumError).code, 'CHECKSUM_MISMATCH');
+    t.equal((e as C32ChecksumError).message, 'Invalid c32check string: checksum mismatch');
+
+    e = catchError(() => c32addressDecode('ST2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKQYAC0RR'));
+    t.ok(e instanceof C32ChecksumError, 'c32addressDecode throws C32ChecksumError');
+
+    e = catchError(() => c32checkDecode(''));
+    t.ok(e instanceof C32LengthError, 'c32checkDecode throws C32LengthError');
+  });
+
+  test('base58check errors', t => {
+    t.plan(6);
+
+    let e = catchError(() => decode('16EMaNw3pkn3v6f2BgnSSs53zAKH4Q8YJh'));
+    t.ok(e instanceof Base58ChecksumError, 'decode throws Base58ChecksumError');
+    t.equal((e as Base58ChecksumError).code, 'BASE58_CHECKSUM_MISMATCH');
+
+    e = catchError(() => b58ToC32('16EMaNw3pkn3v6f2BgnSSs53zAKH4Q8YJ0'));
+    t.ok(e instanceof Base58InvalidCharacterError, 'b58ToC32 throws Base58InvalidCharacterError');
+    t.equal((e as Base58InvalidCharacterError).code, 'BASE58_INVALID_CHARACTER');
+    t.equal((e as Base58InvalidCharacterError).index, 33);
+    t.equal((e as Base58InvalidCharacterError).input, '16EMaNw3pkn3v6f2BgnSSs53zAKH4Q8YJ0');
+  });
+}
+
+// ---------------------------------------------------------------------------
+// poxAddressTests
+// ---------------------------------------------------------------------------
+
+/**
+ * Tests conversion between PoX reward address tuples and Bitcoin addresses.
+ */
+export function poxAddressTests() {
+  const hash = 'a46ff88886c2ef9762d970b4d2c63678835bd39d';
+  const key = '0000000000000000000000000000000000000000000000000000000000000001';
+
+  const vectors: [number, string, string, string][] = [
+    [0, hash, 'mainnet', '1FzTxL9Mxnm2fdmnQEArfhzJHevwbvcH6d'],
+    [1, hash, 'mainnet', '3GgUssdoWh5QkoUDXKqT6LMESBDf8aqp2y'],
+    [4, hash, 'mainnet', 'bc1q53hl3zyxcthewckewz6d933k0zp4h5ua2x2px3'],
+    [5, key, 'mainnet', 'bc1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqs7kgg75'],
+    [6, key, 'mainnet', 'bc1pqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqs5pgpxg'],
+    [0, hash, 'testnet', 'mvWRFPELmpCHSkFQ7o9EVdCd9eXeUTa9T8'],
+    [1, hash, 'testnet', '2N8EgwcZq89akxb6mCTTKiHLVeXRpxjuy98'],
+    [4, hash, 'testnet', 'tb1q53hl3zyxcthewckewz6d933k0zp4h5uaqq3jaz'],
+    [5, key, 'testnet', 'tb1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqsf778ym'],
+    [6, key, 'testnet', 'tb1pqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqsrf7wu8'],
+    [4, hash, 'regtest', 'bcrt1q53hl3zyxcthewckewz6d933k0zp4h5uazfgl2t'],
+    [6, key, 'regtest', 'bcrt1pqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqsws5gfa'],
+  ];
+
+  test('poxAddressToBtcAddress', t => {
+    for (const [version, hashbytes, network, address] of vectors) {
+      t.equal(poxAddressToBtcAddress(version, hashbytes, network), address, address);
+      t.equal(poxAddressToBtcAddress(version, hexToBytes(hashbytes), network), address, 'bytes');
+    }
+    t.equal(
+      poxAddressToBtcAddress(POX_ADDRESS_VERSIONS['p2wpkh-p2sh'], hash, 'mainnet'),
+      '3GgUssdoWh5QkoUDXKqT6LMESBDf8aqp2y',
+      'p2wpkh-p2sh is paid as p2sh'
+    );
+    t.equal(
+      poxAddressToBtcAddress(POX_ADDRESS_VERSIONS['p2wsh-p2sh'], hash, 'testnet'),
+      '2N8EgwcZq89akxb6mCTTKiHLVeXRpxjuy98',
+      'p2wsh-p2sh is paid as p2sh'
+    );
+    t.equal(
+      poxAddressToBtcAddress(0, hash.toUpperCase(), 'mainnet'),
+      '1FzTxL9Mxnm2fdmnQEArfhzJHevwbvcH6d',
+      'uppercase hex'
+    );
+    t.end();
+  });
+
+  test('btcAddressToPoxAddress', t => {
+    for (const [version, hashbytes, network, address] of vectors) {
+      t.deepEqual(btcAddressToPoxAddress(address), { version, hashbytes, network }, address);
+    }
+    t.deepEqual(
+      btcAddressToPoxAddress('BC1Q53HL3ZYXCTHEWCKEWZ6D933K0ZP4H5UA2X2PX3'),
+      { version: 4, hashbytes: hash, network: 'mainnet' },
+      'uppercase bech32'
+    );
+    t.end();
+  });
+
+  test('PoX address invalid inputs', t => {
+    t.plan(9);
+    t.throws(() => poxAddressToBtcAddress(7, hash, 'mainnet'), C32VersionError, 'version 7');
+    t.throws(() => poxAddressToBtcAddress(-1, hash, 'mainnet'), C32VersionError, 'version -1');
+    t.throws(() => poxAddressToBtcAddress(0, key, 'mainnet'), C32LengthError, '32-byte p2pkh');
+    t.throws(() => poxAddressToBtcAddress(5, hash, 'mainnet'), C32LengthError, '20-byte p2wsh');
+    t.throws(() => poxAddressToBtcAddress(0, 'zz', 'mainnet'), C32InvalidHexError, 'not hex');
+    t.throws(() => poxAddressToBtcAddress(0, hash, 'nonet'), C32NetworkError, 'unknown network');
+    t.throws(
+      () => btcAddressToPoxAddress('bc1zw508d6qejxtdg4y5r3zarvaryvaxxpcs'),
+      C32UnsupportedAddressError,
+      'unknown witness version'
+    );
+    t.throws(
+      () => btcAddressToPoxAddress(base58check.encode(hash, '7f')),
+      C32NetworkError,
+      'unknown base58 version'
+    );
+    t.throws(
+      () => btcAddressToPoxAddress(base58check.encode(`${hash}00`, '00')),
+      C32LengthError,
+      'not a hash160'
+    );
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Entry point
 // ---------------------------------------------------------------------------
@@ -1105,7 +3264,25 @@ if (process.env.BIG_DATA_TESTS) {
   c32encodingRandomBytes();
 } else {
   c32encodingTests();
+  c32crockfordTests();
   c32checkEncodingTests();
+  c32integerTests();
   c32addressTests();
   c32ToB58Test();
+  addressFormatTests();
+  stacksUriTests();
+  accountTests();
+  poxAddressTests();
+  base58checkTests();
+  networkRegistryTests();
+  bech32Tests();
+  publicKeyTests();
+  wifTests();
+  multisigTests();
+  batchTests();
+  cliTests();
+  suggestCorrectionsTests();
+  principalTests();
+  brandedTypeTests();
+  c32errorTests();
 }